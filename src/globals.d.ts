@@ -1,3 +1,10 @@
+declare module 'browserify';
 declare module 'canvas-sketch';
 declare module 'glslify';
 declare module 'nice-color-palettes/500';
+
+// injected into the page by the art blocks runtime
+declare const tokenData: { hash: string; tokenId: string } | undefined;
+
+// regl loaded as a library by the art blocks runtime, see token.ts
+declare const createREGL: ((options: any) => any) | undefined;
@@ -0,0 +1,113 @@
+import { flatten } from 'lodash';
+
+import { AnimateLineType, Animation, AnimationEasings, Line } from '../types';
+import { easeOutElastic, EasingFunction, getEasing } from '../utils/easing';
+
+export const getTotalTicks = (anim: Animation) =>
+  anim.startDelayInTicks + anim.durationInTicks + anim.endDelayInTicks;
+
+export const getAnimatedLinesWithAnimations = (
+  lines: Line[],
+  tick: number,
+  anim: Animation,
+): Line[] => {
+  //assumes that the anim feed is the duration of the animation
+  const completeTicksDuration = getTotalTicks(anim);
+  // for looping, the tick is set to cycle [0, completeTicksDuration]
+  const relativeTick = tick % completeTicksDuration;
+  if (relativeTick < anim.startDelayInTicks) {
+    return lines.map((l) => animateLine(l, 'static', 1));
+  }
+  if (
+    relativeTick >= anim.startDelayInTicks &&
+    relativeTick < completeTicksDuration - anim.endDelayInTicks
+  ) {
+    if (anim.type === 'timeline') {
+      const lineGroups: Line[][] = anim.subAnimations.map((a: Animation) => {
+        const pickedLine = lines[a.props.lineIndex as number];
+        return getAnimatedLinesWithAnimations(
+          [pickedLine],
+          relativeTick - anim.startDelayInTicks,
+          a,
+        );
+      });
+      return flatten(lineGroups);
+    }
+    if (anim.type === 'breath') {
+      const relativeTickToDuration = relativeTick - anim.startDelayInTicks;
+      const animationSequence: AnimateLineType[] = [
+        'start-expand',
+        'start-suck',
+        'end-suck',
+        'end-expand',
+      ];
+      const sequenceDurationInTicks =
+        anim.durationInTicks / animationSequence.length;
+      const proportion =
+        (relativeTickToDuration % sequenceDurationInTicks) /
+        sequenceDurationInTicks;
+      const animationIndex = Math.floor(
+        relativeTickToDuration / sequenceDurationInTicks,
+      );
+      const type = animationSequence[animationIndex];
+      const ease = getPhaseEasing(anim.props, type);
+      return lines.map((l) => animateLine(l, type, proportion, ease));
+    }
+    return lines.map((l) => animateLine(l, 'static', 1));
+  }
+  if (relativeTick >= completeTicksDuration - anim.endDelayInTicks) {
+    return lines.map((l) => animateLine(l, 'static', 1));
+  }
+  return lines;
+};
+
+// a phase specific easing wins over the animation wide easing
+export const getPhaseEasing = (
+  easings: Partial<AnimationEasings>,
+  type: AnimateLineType,
+): EasingFunction =>
+  getEasing(easings.phaseEasings?.[type] ?? easings.easing ?? 'easeOutElastic');
+
+export const animateLine = (
+  l: Line,
+  type: AnimateLineType,
+  proportion: number,
+  ease: EasingFunction = easeOutElastic,
+): Line => {
+  let startRatio = 0;
+  let endRatio = 0;
+  if (type === 'static') {
+    endRatio = proportion;
+  }
+  if (type === 'start-suck') {
+    endRatio = 1;
+    startRatio = 1 - ease(proportion);
+  }
+  if (type === 'start-expand') {
+    endRatio = 1;
+    startRatio = ease(proportion);
+  }
+  if (type === 'end-suck') {
+    endRatio = 1 - ease(proportion);
+    startRatio = 0;
+  }
+  if (type === 'end-expand') {
+    endRatio = ease(proportion);
+    startRatio = 0;
+  }
+  // if vert, scale the y value
+  if (l[1][0] - l[0][0] === 0) {
+    return [
+      [l[0][0], l[0][1] + (l[1][1] - l[0][1]) * startRatio],
+      [l[1][0], l[0][1] + (l[1][1] - l[0][1]) * endRatio],
+    ];
+  }
+  // if horz, scale the x value
+  if (l[1][1] - l[0][1] === 0) {
+    return [
+      [l[0][0] + (l[1][0] - l[0][0]) * startRatio, l[0][1]],
+      [l[0][0] + (l[1][0] - l[0][0]) * endRatio, l[1][1]],
+    ];
+  }
+  return l;
+};
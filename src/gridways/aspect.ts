@@ -0,0 +1,70 @@
+import { DIMENSIONS } from './constants';
+import { Gene } from './gene';
+
+// editions the piece is laid out for, width over height
+export const ASPECT_RATIOS: { [name: string]: number } = {
+  '1:1': 1,
+  '4:5': 4 / 5,
+  '16:9': 16 / 9,
+};
+
+export const DEFAULT_ASPECT_RATIO = '1:1';
+
+// genes are authored on the square DIMENSIONS, its side is the short side of
+// every edition so pixel sizes in the gene keep their meaning
+export const REFERENCE_SIZE = Math.min(...DIMENSIONS);
+
+const EPSILON = 1e-6;
+
+// `4:5`, `16:9` or a plain ratio like `1.25`
+export const parseAspectRatio = (value: string) => {
+  const [width, height = '1'] = value.split(':');
+  const ratio = Number(width) / Number(height);
+  if (!(ratio > 0) || !isFinite(ratio)) {
+    throw new Error(`invalid aspect ratio: ${value}`);
+  }
+  return ratio;
+};
+
+// artwork size of an edition, the long side grows with the aspect ratio
+export const getDimensions = (aspectRatio = 1): [number, number] =>
+  aspectRatio >= 1
+    ? [Math.round(REFERENCE_SIZE * aspectRatio), REFERENCE_SIZE]
+    : [REFERENCE_SIZE, Math.round(REFERENCE_SIZE / aspectRatio)];
+
+// fits the grid of the gene to the canvas, units and gap scale with the short
+// side and the long side gains units in proportion to its length, so a canvas
+// of the same aspect ratio gets the same composition at any resolution and the
+// square reference canvas keeps the grid of the gene
+export const fitGridPartitioning = (
+  gridPartitioning: Gene['gridPartitioning'],
+  width: number,
+  height: number,
+): Gene['gridPartitioning'] => {
+  const { unitSize, gridSizeInUnits, gap } = gridPartitioning;
+  const shortSide = Math.min(width, height);
+  const scale = shortSide / REFERENCE_SIZE;
+  const fitAxis = (axis: number) => {
+    const side = [width, height][axis];
+    // never more units than the side holds at the reference scale
+    const maxUnits = Math.floor(
+      (side / scale + gap) / (unitSize[axis] + gap) + EPSILON,
+    );
+    return Math.min(
+      Math.floor((gridSizeInUnits[axis] * side) / shortSide),
+      maxUnits,
+    );
+  };
+
+  return {
+    ...gridPartitioning,
+    gap: gap * scale,
+    unitSize: [unitSize[0] * scale, unitSize[1] * scale],
+    gridSizeInUnits: [fitAxis(0), fitAxis(1)],
+  };
+};
+
+export const fitGene = (gene: Gene, width: number, height: number): Gene => ({
+  ...gene,
+  gridPartitioning: fitGridPartitioning(gene.gridPartitioning, width, height),
+});
@@ -0,0 +1,307 @@
+import { Rect } from '../types';
+import { DEFAULT_GRAIN_SIZE } from './constants';
+import { MAX_COLOR_STOPS } from './gene';
+import { RectProps } from './layout';
+import { Renderer } from './renderer';
+import { getLayeredSceneRects, Scene } from './scene';
+import {
+  CIRCLE_DIAMETER_RATIO,
+  getRectCenter,
+  getRectHalfSize,
+} from './shapes';
+import { getTintAmount } from './texture';
+import { Viewport } from './viewport';
+
+type Canvas2D = CanvasRenderingContext2D;
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+const getTileSize = ({ tile }: Viewport): [number, number] => [
+  tile[1][0] - tile[0][0],
+  tile[1][1] - tile[0][1],
+];
+
+// share of the tint color in every pixel of the tile as alpha, computed on the
+// cpu like the rasterizer so the texture matches the gpu
+const createTintMask = (
+  pointilism: number,
+  cellSize: number,
+  viewport: Viewport,
+) => {
+  const { resolution, tile } = viewport;
+  const [width, height] = getTileSize(viewport);
+  const canvas = createCanvas(width, height);
+  const context = canvas.getContext('2d')!;
+  const image = context.createImageData(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // gl_FragCoord has its origin in the bottom left of the image
+      const fragCoord = [
+        tile[0][0] + x + 0.5,
+        resolution[1] - tile[0][1] - y - 0.5,
+      ];
+      image.data[(y * width + x) * 4 + 3] = Math.round(
+        getTintAmount(pointilism, fragCoord, resolution, cellSize) * 255,
+      );
+    }
+  }
+  context.putImageData(image, 0, 0);
+  return canvas;
+};
+
+const traceRoundedRect = (context: Canvas2D, rect: Rect, radius: number) => {
+  const [[left, top], [right, bottom]] = rect;
+  context.beginPath();
+  context.moveTo(left + radius, top);
+  context.arcTo(right, top, right, bottom, radius);
+  context.arcTo(right, bottom, left, bottom, radius);
+  context.arcTo(left, bottom, left, top, radius);
+  context.arcTo(left, top, right, top, radius);
+  context.closePath();
+};
+
+// evenly spaced stops along the gradient axis of the rect
+const createRectGradient = (
+  context: Canvas2D,
+  rect: Rect,
+  props: RectProps,
+) => {
+  const [[left, top], [right, bottom]] = rect;
+  const gradient = props.isGradientVert
+    ? context.createLinearGradient(0, top, 0, bottom)
+    : context.createLinearGradient(left, 0, right, 0);
+  const colors = props.colors.slice(0, MAX_COLOR_STOPS);
+  colors.forEach((color, i) =>
+    gradient.addColorStop(
+      colors.length > 1 ? i / (colors.length - 1) : 0,
+      color,
+    ),
+  );
+  return gradient;
+};
+
+// mirrors the motifs of the rect fragment shader, they run along the long
+// side of the rect
+const fillMotif = (context: Canvas2D, rect: Rect, props: RectProps) => {
+  const center = getRectCenter(rect);
+  const halfSize = getRectHalfSize(rect);
+  const shortSide = 2 * Math.min(halfSize[0], halfSize[1]);
+  const axis = halfSize[0] > halfSize[1] ? 0 : 1;
+  // a band of the rect along the long axis
+  const fillBand = (from: number, to: number) => {
+    const start = Math.max(from, rect[0][axis]);
+    const end = Math.min(to, rect[1][axis]);
+    if (end <= start) {
+      return;
+    }
+    if (axis === 0) {
+      context.fillRect(start, rect[0][1], end - start, rect[1][1] - rect[0][1]);
+    } else {
+      context.fillRect(rect[0][0], start, rect[1][0] - rect[0][0], end - start);
+    }
+  };
+
+  switch (props.motif) {
+    case 'circle':
+      context.beginPath();
+      context.arc(
+        center[0],
+        center[1],
+        (CIRCLE_DIAMETER_RATIO * shortSide) / 2,
+        0,
+        2 * Math.PI,
+      );
+      context.fill();
+      break;
+    case 'stripes': {
+      const first = Math.floor((rect[0][axis] - center[axis]) / shortSide);
+      const last = Math.ceil((rect[1][axis] - center[axis]) / shortSide);
+      for (let i = first; i <= last; i++) {
+        const from = center[axis] + i * shortSide;
+        fillBand(from, from + shortSide / 2);
+      }
+      break;
+    }
+    case 'half':
+      fillBand(rect[0][axis], center[axis]);
+      break;
+  }
+};
+
+// canvas 2d fallback for browsers and previews without webgl, paints the
+// gradients, shapes and tint texture of the regl renderer, overlapping rects
+// are painted from the lowest zIndex up, post processing passes are gpu only
+export const createCanvasRenderer = (context: Canvas2D): Renderer => {
+  let scene: Scene | undefined;
+  // the tint texture is costly, masks are kept per pointilism and grain until
+  // the viewport changes and tinted masks per scene
+  let viewportKey = '';
+  const tintMasks = new Map<string, HTMLCanvasElement>();
+  const tintedMasks = new Map<string, HTMLCanvasElement>();
+
+  const getTintedMask = (
+    tintColor: string,
+    pointilism: number,
+    cellSize: number,
+    viewport: Viewport,
+  ) => {
+    const maskKey = `${pointilism}:${cellSize}`;
+    const key = `${maskKey}:${tintColor}`;
+    if (!tintedMasks.has(key)) {
+      if (!tintMasks.has(maskKey)) {
+        tintMasks.set(maskKey, createTintMask(pointilism, cellSize, viewport));
+      }
+      const mask = tintMasks.get(maskKey)!;
+      const tinted = createCanvas(mask.width, mask.height);
+      const tintedContext = tinted.getContext('2d')!;
+      tintedContext.drawImage(mask, 0, 0);
+      tintedContext.globalCompositeOperation = 'source-in';
+      tintedContext.fillStyle = tintColor;
+      tintedContext.fillRect(0, 0, mask.width, mask.height);
+      tintedMasks.set(key, tinted);
+    }
+    return tintedMasks.get(key)!;
+  };
+
+  // draws the part of the tinted mask under the rect over the current clip
+  const drawTint = (
+    mask: HTMLCanvasElement,
+    rect: Rect,
+    { scale, tile }: Viewport,
+  ) => {
+    const left = Math.max(Math.floor(rect[0][0] * scale - tile[0][0]), 0);
+    const top = Math.max(Math.floor(rect[0][1] * scale - tile[0][1]), 0);
+    const right = Math.min(
+      Math.ceil(rect[1][0] * scale - tile[0][0]),
+      mask.width,
+    );
+    const bottom = Math.min(
+      Math.ceil(rect[1][1] * scale - tile[0][1]),
+      mask.height,
+    );
+    if (right <= left || bottom <= top) {
+      return;
+    }
+    const width = right - left;
+    const height = bottom - top;
+    context.setTransform(1, 0, 0, 1, 0, 0);
+    context.drawImage(mask, left, top, width, height, left, top, width, height);
+  };
+
+  const setScene = (nextScene: Scene) => {
+    scene = nextScene;
+    tintedMasks.clear();
+  };
+
+  const draw = (playhead: number, viewport: Viewport) => {
+    if (!scene) {
+      return;
+    }
+    const currentScene = scene;
+    const nextViewportKey = JSON.stringify(viewport);
+    if (nextViewportKey !== viewportKey) {
+      viewportKey = nextViewportKey;
+      tintMasks.clear();
+      tintedMasks.clear();
+    }
+    const { scale, tile } = viewport;
+    const setSceneTransform = () =>
+      context.setTransform(scale, 0, 0, scale, -tile[0][0], -tile[0][1]);
+
+    const { background } = currentScene;
+    context.save();
+    setSceneTransform();
+    const backgroundGradient = context.createLinearGradient(
+      0,
+      0,
+      currentScene.width,
+      0,
+    );
+    backgroundGradient.addColorStop(0, background.colors[1]);
+    backgroundGradient.addColorStop(1, background.colors[0]);
+    context.fillStyle = backgroundGradient;
+    const sceneRect: Rect = [
+      [0, 0],
+      [currentScene.width, currentScene.height],
+    ];
+    context.fillRect(0, 0, currentScene.width, currentScene.height);
+    drawTint(
+      getTintedMask(
+        background.tintColor,
+        background.pointilism,
+        (background.grainSize ?? DEFAULT_GRAIN_SIZE) * scale,
+        viewport,
+      ),
+      sceneRect,
+      viewport,
+    );
+    context.restore();
+
+    // painted from the lowest zIndex up, the first rect drawn wins a tie like
+    // with the depth test
+    const { rects, rectProps } = getLayeredSceneRects(currentScene, playhead);
+    const order = rects
+      .map((_, i) => i)
+      .sort(
+        (a, b) =>
+          (rectProps[a].zIndex ?? 0) - (rectProps[b].zIndex ?? 0) || b - a,
+      );
+    order.forEach((i) => {
+      const rect = rects[i];
+      const props = rectProps[i];
+      const { cornerRadius = 0, strokeWidth = 0 } = props;
+      const halfSize = getRectHalfSize(rect);
+      if (halfSize[0] <= 0 || halfSize[1] <= 0) {
+        return;
+      }
+      const radius = cornerRadius * 2 * Math.min(halfSize[0], halfSize[1]);
+      const accentColor = props.accentColor ?? props.tintColor;
+
+      context.save();
+      setSceneTransform();
+      traceRoundedRect(context, rect, radius);
+      context.clip();
+      if (strokeWidth > 0) {
+        context.fillStyle = accentColor;
+        context.fill();
+      }
+      const inset: Rect = [
+        [rect[0][0] + strokeWidth, rect[0][1] + strokeWidth],
+        [rect[1][0] - strokeWidth, rect[1][1] - strokeWidth],
+      ];
+      if (inset[1][0] > inset[0][0] && inset[1][1] > inset[0][1]) {
+        context.save();
+        traceRoundedRect(context, inset, Math.max(radius - strokeWidth, 0));
+        context.clip();
+        context.fillStyle = createRectGradient(context, rect, props);
+        context.fillRect(
+          rect[0][0],
+          rect[0][1],
+          rect[1][0] - rect[0][0],
+          rect[1][1] - rect[0][1],
+        );
+        context.fillStyle = accentColor;
+        fillMotif(context, rect, props);
+        context.restore();
+      }
+      drawTint(
+        getTintedMask(
+          props.tintColor,
+          props.pointilism ?? currentScene.foreground.pointilism,
+          currentScene.foreground.grainSize * scale,
+          viewport,
+        ),
+        rect,
+        viewport,
+      );
+      context.restore();
+    });
+  };
+
+  return { setScene, draw };
+};
@@ -0,0 +1,30 @@
+export const PPI = 300;
+export const DIMENSIONS = [PPI * 12, PPI * 12];
+
+// grain is sized in artwork pixels, so a grain is 1 / PPI of an inch at the
+// default size whatever the resolution it is rendered at
+export const DEFAULT_GRAIN_SIZE = 1;
+
+// animated mode plays one tick per frame
+export const FPS = 24;
+export const ANIMATE_QUERY_PARAM = 'animate';
+
+// `?aspect=4:5` lays the piece out for a 4:5 edition, `?aspect=fit` for the
+// window, see aspect.ts
+export const ASPECT_QUERY_PARAM = 'aspect';
+export const FIT_ASPECT_RATIO = 'fit';
+
+// `?canvas2d` renders with the canvas 2d fallback even when webgl is available
+export const CANVAS_2D_QUERY_PARAM = 'canvas2d';
+
+// overrides the gene derived from the hash, see serialization.ts
+export const GENE_QUERY_PARAM = 'gene';
+
+// shows the live tweak panel, see panel.ts
+export const PANEL_QUERY_PARAM = 'panel';
+
+// `?gallery=16` renders random tokens, `?gallery=0x..,0x..` a list of hashes
+export const GALLERY_QUERY_PARAM = 'gallery';
+
+// `?print=24@600` downloads a 24 inch wide render at 600 ppi, see tiles.ts
+export const PRINT_QUERY_PARAM = 'print';
@@ -0,0 +1,387 @@
+import { AnimationEasings, Range } from '../types';
+import { createRng } from '../utils/random';
+import { hashToSeed } from '../utils/seed';
+import * as colors from '../data/colors.json';
+import { DEFAULT_GRAIN_SIZE, DIMENSIONS } from './constants';
+import {
+  Gene,
+  GradientColorPallete,
+  GradientDirection,
+  SimpleColorPallete,
+} from './gene';
+import {
+  enforceContrast,
+  getBackgroundColors,
+  getBackgroundTintColor,
+  getGradientStops,
+  getShades,
+  getTintColor,
+  Harmony,
+  resolvePallete,
+} from './palette';
+
+export type Features = { [traitName: string]: string };
+
+// rejected palettes of colors.json paint a harmony, named in the metadata so
+// it matches the artwork
+const getHarmonyName = (harmony?: Harmony) =>
+  harmony ? harmony[0].toUpperCase() + harmony.slice(1) : 'None';
+
+export interface FeaturesWithGene {
+  features: Features; // human readable traits, published as token metadata
+  gene: Gene;
+}
+
+interface TraitOption<T> {
+  name: string;
+  weight: number; // rarity weight relative to the other options of the trait
+  value: T;
+}
+
+// ratio of the canvas the grid spans, gap and unit size are fit inside of it
+const GRID_EXTENT_RATIO = 0.82;
+
+export const GRID_DENSITY_OPTIONS: TraitOption<number>[] = [
+  { name: 'Sparse', weight: 0.2, value: 16 },
+  { name: 'Regular', weight: 0.5, value: 30 },
+  { name: 'Dense', weight: 0.25, value: 44 },
+  { name: 'Swarming', weight: 0.05, value: 60 },
+];
+
+// gap as a ratio of a unit plus its gap
+export const GAP_OPTIONS: TraitOption<number>[] = [
+  { name: 'Tight', weight: 0.25, value: 0.25 },
+  { name: 'Regular', weight: 0.55, value: 0.5 },
+  { name: 'Airy', weight: 0.2, value: 0.65 },
+];
+
+export const JITTER_OPTIONS: TraitOption<Range>[] = [
+  { name: 'None', weight: 0.6, value: [0, 0] },
+  { name: 'Subtle', weight: 0.3, value: [0, 0.3] },
+  { name: 'Restless', weight: 0.1, value: [0, 0.7] },
+];
+
+export const ORIENTATION_BIAS_OPTIONS: TraitOption<number>[] = [
+  { name: 'Balanced', weight: 0.6, value: 0.5 },
+  { name: 'Vertical', weight: 0.2, value: 0.3 },
+  { name: 'Horizontal', weight: 0.2, value: 0.7 },
+];
+
+export const EASING_OPTIONS: TraitOption<AnimationEasings>[] = [
+  { name: 'Elastic', weight: 0.35, value: { easing: 'easeOutElastic' } },
+  { name: 'Smooth', weight: 0.25, value: { easing: 'easeInOutCubic' } },
+  { name: 'Bouncy', weight: 0.15, value: { easing: 'easeOutBounce' } },
+  { name: 'Overshoot', weight: 0.15, value: { easing: 'easeOutBack' } },
+  {
+    name: 'Tidal',
+    weight: 0.1,
+    value: {
+      easing: 'easeInOutSine',
+      phaseEasings: {
+        'start-suck': 'cubic-bezier(0.7, 0, 0.3, 1)',
+        'end-suck': 'cubic-bezier(0.7, 0, 0.3, 1)',
+      },
+    },
+  },
+];
+
+// number of palletes rendered as gradients instead of flat colors
+export const GRADIENTS_OPTIONS: TraitOption<number>[] = [
+  { name: 'None', weight: 0.6, value: 0 },
+  { name: 'Accent', weight: 0.3, value: 1 },
+  { name: 'Flowing', weight: 0.1, value: 2 },
+];
+
+type StructureOption = Pick<
+  Gene['gridPartitioning'],
+  'strategy' | 'minSegmentLength' | 'maxSegmentLength'
+>;
+
+export const STRUCTURE_OPTIONS: TraitOption<StructureOption>[] = [
+  { name: 'Drift', weight: 0.45, value: { strategy: 'binary' } },
+  {
+    name: 'Treemap',
+    weight: 0.15,
+    value: { strategy: 'squarified', minSegmentLength: 2 },
+  },
+  { name: 'Mondrian', weight: 0.15, value: { strategy: 'mondrian' } },
+  {
+    name: 'Blocks',
+    weight: 0.13,
+    value: {
+      strategy: 'weighted-bsp',
+      minSegmentLength: 2,
+      maxSegmentLength: 8,
+    },
+  },
+  { name: 'Spiral', weight: 0.06, value: { strategy: 'spiral' } },
+  { name: 'Concentric', weight: 0.06, value: { strategy: 'concentric' } },
+];
+
+type ShapeOption = Gene['foreground']['shapes'];
+
+// rect shading, motifs are then picked per rect by their ratios
+export const SHAPE_OPTIONS: TraitOption<ShapeOption>[] = [
+  { name: 'Flat', weight: 0.5, value: undefined },
+  {
+    name: 'Rounded',
+    weight: 0.2,
+    value: {
+      cornerRadius: 0.5,
+      strokeWidth: 0,
+      motifs: ['none'],
+      motifRatios: [1],
+    },
+  },
+  {
+    name: 'Outlined',
+    weight: 0.1,
+    value: {
+      cornerRadius: 0.15,
+      strokeWidth: 4,
+      motifs: ['none'],
+      motifRatios: [1],
+    },
+  },
+  {
+    name: 'Dotted',
+    weight: 0.08,
+    value: {
+      cornerRadius: 0.5,
+      strokeWidth: 0,
+      motifs: ['none', 'circle'],
+      motifRatios: [0.6, 0.4],
+    },
+  },
+  {
+    name: 'Striped',
+    weight: 0.07,
+    value: {
+      cornerRadius: 0,
+      strokeWidth: 0,
+      motifs: ['none', 'stripes'],
+      motifRatios: [0.7, 0.3],
+    },
+  },
+  {
+    name: 'Split',
+    weight: 0.05,
+    value: {
+      cornerRadius: 0.1,
+      strokeWidth: 0,
+      motifs: ['none', 'half'],
+      motifRatios: [0.5, 0.5],
+    },
+  },
+];
+
+// post processing passes over the finished image
+export const FINISH_OPTIONS: TraitOption<Gene['postProcessing']>[] = [
+  { name: 'Clean', weight: 0.45, value: undefined },
+  {
+    name: 'Paper',
+    weight: 0.25,
+    value: { paper: { strength: 0.12, fibreSize: 6 } },
+  },
+  {
+    name: 'Film',
+    weight: 0.15,
+    value: {
+      vignette: { strength: 0.35, radius: 0.4 },
+      filmGrain: { strength: 0.08, grainSize: 2 },
+    },
+  },
+  {
+    name: 'Misprint',
+    weight: 0.1,
+    value: {
+      chromaticAberration: { offset: 6 },
+      paper: { strength: 0.08, fibreSize: 6 },
+    },
+  },
+  {
+    name: 'Glow',
+    weight: 0.05,
+    value: {
+      bloom: { threshold: 0.6, strength: 0.8, spread: 24 },
+      vignette: { strength: 0.25, radius: 0.5 },
+    },
+  },
+];
+
+const GRADIENT_DIRECTIONS: GradientDirection[] = [
+  'along',
+  'across',
+  'horizontal',
+  'vertical',
+];
+
+// converts a grid density and gap ratio into pixel sizes that fill the extent
+const getGridPartitioning = (
+  gridSizeInUnits: number,
+  gapRatio: number,
+  vertOrHorzRatio: number,
+  extent: number,
+): Gene['gridPartitioning'] => {
+  const pitch = extent / (gridSizeInUnits - gapRatio);
+  const gap = pitch * gapRatio;
+  const unitSize = pitch - gap;
+  return {
+    gap,
+    unitSize: [unitSize, unitSize],
+    gridSizeInUnits: [gridSizeInUnits, gridSizeInUnits],
+    vertOrHorzRatio,
+  };
+};
+
+export const extractFeaturesFromSeed = (seed: string): FeaturesWithGene => {
+  // traits draw from a fork of their own, createScene lays out the gene from
+  // the other forks of the seed
+  const rng = createRng(seed).fork('traits');
+  const { randomInArray, randomInArrayByWeights } = rng;
+
+  const pickTrait = <T>(options: TraitOption<T>[]): TraitOption<T> =>
+    randomInArrayByWeights(
+      options,
+      options.map((o) => o.weight),
+    );
+
+  // palette is picked first and uniformly, every palette is equally rare
+  const pallete: string[] = randomInArray(colors);
+  const palleteIndex = (colors as string[][]).indexOf(pallete);
+  const resolvedPallete = resolvePallete(pallete, palleteIndex);
+  const backgroundColors = getBackgroundColors(resolvedPallete.background);
+  // every rect color stays readable against both ends of the background
+  const readable = (hex: string) => enforceContrast(hex, backgroundColors);
+  const gridDensity = pickTrait(GRID_DENSITY_OPTIONS);
+  const gap = pickTrait(GAP_OPTIONS);
+  const jitter = pickTrait(JITTER_OPTIONS);
+  const orientationBias = pickTrait(ORIENTATION_BIAS_OPTIONS);
+  const easing = pickTrait(EASING_OPTIONS);
+  const gradients = pickTrait(GRADIENTS_OPTIONS);
+  const structure = pickTrait(STRUCTURE_OPTIONS);
+
+  const features: Features = {
+    'Palette': `No. ${palleteIndex}`,
+    'Harmony': getHarmonyName(resolvedPallete.harmony),
+    'Grid Density': gridDensity.name,
+    'Gap': gap.name,
+    'Jitter': jitter.name,
+    'Orientation Bias': orientationBias.name,
+    'Easing': easing.name,
+    'Gradients': gradients.name,
+    'Structure': structure.name,
+  };
+
+  const gene: Gene = {
+    seed,
+    animation: {
+      startDelayInTicks: 24,
+      endDelayInTicks: 24,
+      breathDurationInTicksPerUnit: 4,
+      bloomMaxStartDelayInTicks: 48,
+      ...easing.value,
+    },
+    foreground: {
+      pointilism: 0.4,
+      colorPalletes: resolvedPallete.colors.map((p: string, i: number) =>
+        i < gradients.value
+          ? ({
+              colors: getGradientStops(p).map(readable),
+              tintColors: [getTintColor(p)],
+              pointilism: 0.2,
+              direction: randomInArray(GRADIENT_DIRECTIONS),
+              type: 'gradient',
+            } as GradientColorPallete)
+          : ({
+              colors: getShades(p).map(readable),
+              tintColors: [getTintColor(p), getTintColor(p), getTintColor(p)],
+              colorRatios: [0.33, 0.33, 0.34],
+              type: 'simple',
+            } as SimpleColorPallete),
+      ),
+      colorPalletesRatio: [0.25, 0.25, 0.25, 0.25],
+      colorSprinkleRatio: 0.0,
+      colorPalletesSprinkleRatio: [0, 0, 0, 0],
+      colorPointilism: 0.01,
+      grainSize: DEFAULT_GRAIN_SIZE,
+    },
+    background: {
+      colors: backgroundColors,
+      tintColor: getBackgroundTintColor(resolvedPallete.background),
+      pointilism: 0.08,
+      grainSize: DEFAULT_GRAIN_SIZE,
+    },
+    gridLinesToRects: {
+      gitter: jitter.value,
+    },
+    gridPartitioning: {
+      ...getGridPartitioning(
+        gridDensity.value,
+        gap.value,
+        orientationBias.value,
+        Math.min(...DIMENSIONS) * GRID_EXTENT_RATIO,
+      ),
+      ...structure.value,
+    },
+  };
+
+  // picked after the gene so the draws of the older traits keep their order
+  const shape = pickTrait(SHAPE_OPTIONS);
+  features['Shape'] = shape.name;
+  if (shape.value) {
+    gene.foreground.shapes = shape.value;
+  }
+  const finish = pickTrait(FINISH_OPTIONS);
+  features['Finish'] = finish.name;
+  if (finish.value) {
+    gene.postProcessing = finish.value;
+  }
+
+  return { features, gene };
+};
+
+export type TraitDistributions = {
+  [traitName: string]: { [value: string]: number };
+};
+
+const getOptionsDistribution = <T>(options: TraitOption<T>[]) => {
+  const totalWeight = options.reduce((total, o) => total + o.weight, 0);
+  const distribution: { [value: string]: number } = {};
+  options.forEach((o) => {
+    distribution[o.name] = (distribution[o.name] ?? 0) + o.weight / totalWeight;
+  });
+  return distribution;
+};
+
+// expected probability of every value of every trait, keep in sync with the
+// features picked in extractFeaturesFromSeed
+export const getTraitDistributions = (): TraitDistributions => ({
+  'Palette': getOptionsDistribution(
+    (colors as string[][]).map((_, i) => ({
+      name: `No. ${i}`,
+      weight: 1,
+      value: i,
+    })),
+  ),
+  'Harmony': getOptionsDistribution(
+    (colors as string[][]).map((pallete, i) => ({
+      name: getHarmonyName(resolvePallete(pallete, i).harmony),
+      weight: 1,
+      value: i,
+    })),
+  ),
+  'Grid Density': getOptionsDistribution(GRID_DENSITY_OPTIONS),
+  'Gap': getOptionsDistribution(GAP_OPTIONS),
+  'Jitter': getOptionsDistribution(JITTER_OPTIONS),
+  'Orientation Bias': getOptionsDistribution(ORIENTATION_BIAS_OPTIONS),
+  'Easing': getOptionsDistribution(EASING_OPTIONS),
+  'Gradients': getOptionsDistribution(GRADIENTS_OPTIONS),
+  'Structure': getOptionsDistribution(STRUCTURE_OPTIONS),
+  'Shape': getOptionsDistribution(SHAPE_OPTIONS),
+  'Finish': getOptionsDistribution(FINISH_OPTIONS),
+});
+
+// pure and DOM free, safe to run in node to generate token metadata
+export const extractFeatures = (hash: string): FeaturesWithGene =>
+  extractFeaturesFromSeed(hashToSeed(hash));
@@ -0,0 +1,211 @@
+import { createHash } from 'crypto';
+
+import { createRng } from '../utils/random';
+import { generateRandomHash } from '../utils/seed';
+import { getDimensions } from './aspect';
+import { extractFeatures } from './features';
+import { createScene, getSceneRects, Scene } from './scene';
+
+export interface SceneFingerprint {
+  hash: string; // of the whole scene description
+  settings: string; // of everything in the scene but the rects
+  rects: string[]; // short hash of every rect, in scene order
+}
+
+// fingerprints of the square edition by token hash
+export interface FingerprintManifest {
+  [tokenHash: string]: SceneFingerprint;
+}
+
+export interface RectChange {
+  index: number;
+  from?: string; // fingerprint in the baseline, unset for added rects
+  description?: string; // the rect now, unset for removed rects
+}
+
+export interface FingerprintDrift {
+  tokenHash: string;
+  error?: string; // the scene can't be created anymore
+  settingsChanged: boolean;
+  rectCount: [number, number]; // in the baseline and now
+  rectChanges: RectChange[];
+}
+
+const RECT_HASH_LENGTH = 8;
+// numbers are compared in thousandths of a pixel so float noise doesn't count
+const PRECISION = 1000;
+
+// json with sorted keys and rounded numbers, so reordering keys or float noise
+// from a refactor never reads as drift
+const stableStringify = (value: any): string =>
+  JSON.stringify(value, (_, v) => {
+    if (typeof v === 'number') {
+      return Math.round(v * PRECISION) / PRECISION;
+    }
+    if (v && typeof v === 'object' && !Array.isArray(v)) {
+      return Object.keys(v)
+        .sort()
+        .reduce((sorted: { [key: string]: any }, key) => {
+          sorted[key] = v[key];
+          return sorted;
+        }, {});
+    }
+    return v;
+  });
+
+const hash = (value: string) =>
+  createHash('sha256').update(value).digest('hex');
+
+// a rect is its line, its resting bounds in pixels and all of its props
+export const describeSceneRects = (scene: Scene): string[] => {
+  const rects = getSceneRects(scene);
+  return scene.lines.map((line, i) =>
+    stableStringify({
+      line,
+      rect: rects[i],
+      ...scene.lineProps[i],
+      ...scene.rectProps[i],
+    }),
+  );
+};
+
+// the timeline is left out as it follows from the rect props
+const describeSceneSettings = (scene: Scene) => {
+  const { lines, lineProps, rectProps, timelineAnimation, ...settings } = scene;
+  return stableStringify(settings);
+};
+
+export const getSceneFingerprint = (scene: Scene): SceneFingerprint => {
+  const settings = hash(describeSceneSettings(scene));
+  const rects = describeSceneRects(scene).map((description) =>
+    hash(description).slice(0, RECT_HASH_LENGTH),
+  );
+  return {
+    hash: hash([settings, ...rects].join('\n')),
+    settings,
+    rects,
+  };
+};
+
+// the scene of the square edition a collector sees for the token
+export const createTokenScene = (tokenHash: string) =>
+  createScene(extractFeatures(tokenHash).gene, ...getDimensions());
+
+// hashes from a seeded stream so the default seed list never changes
+export const getFingerprintHashes = (count: number, sampleSeed: string) => {
+  const { next } = createRng(sampleSeed);
+  return Array.from({ length: count }, () => generateRandomHash(next));
+};
+
+// a line per token so diffs of the manifest show which tokens changed
+export const formatFingerprintManifest = (manifest: FingerprintManifest) =>
+  `{\n${Object.keys(manifest)
+    .map(
+      (tokenHash) =>
+        `  ${JSON.stringify(tokenHash)}: ${JSON.stringify(
+          manifest[tokenHash],
+        )}`,
+    )
+    .join(',\n')}\n}\n`;
+
+export const createFingerprintManifest = (
+  tokenHashes: string[],
+): FingerprintManifest =>
+  tokenHashes.reduce((manifest: FingerprintManifest, tokenHash) => {
+    manifest[tokenHash] = getSceneFingerprint(createTokenScene(tokenHash));
+    return manifest;
+  }, {});
+
+// rects are compared by index, a partitioning change shows as every rect after
+// the first changed line plus a change in count
+const diffRects = (
+  baseline: string[],
+  current: string[],
+  descriptions: string[],
+): RectChange[] => {
+  const changes: RectChange[] = [];
+  for (let i = 0; i < Math.max(baseline.length, current.length); i++) {
+    if (baseline[i] !== current[i]) {
+      changes.push({
+        index: i,
+        from: baseline[i],
+        description: descriptions[i],
+      });
+    }
+  }
+  return changes;
+};
+
+// every token of the baseline whose scene drifted, empty when none did
+export const checkFingerprints = (
+  baseline: FingerprintManifest,
+): FingerprintDrift[] =>
+  Object.keys(baseline).reduce((drifts: FingerprintDrift[], tokenHash) => {
+    const expected = baseline[tokenHash];
+    let scene: Scene;
+    try {
+      scene = createTokenScene(tokenHash);
+    } catch (e) {
+      drifts.push({
+        tokenHash,
+        error: `${e.message ?? e}`,
+        settingsChanged: true,
+        rectCount: [expected.rects.length, 0],
+        rectChanges: [],
+      });
+      return drifts;
+    }
+    const fingerprint = getSceneFingerprint(scene);
+    if (fingerprint.hash !== expected.hash) {
+      drifts.push({
+        tokenHash,
+        settingsChanged: fingerprint.settings !== expected.settings,
+        rectCount: [expected.rects.length, fingerprint.rects.length],
+        rectChanges: diffRects(
+          expected.rects,
+          fingerprint.rects,
+          describeSceneRects(scene),
+        ),
+      });
+    }
+    return drifts;
+  }, []);
+
+export const formatFingerprintDrifts = (
+  drifts: FingerprintDrift[],
+  maxListedRects = 5,
+) =>
+  drifts
+    .map((drift) => {
+      const lines = [drift.tokenHash];
+      if (drift.error) {
+        lines.push(`  no longer renders: ${drift.error}`);
+        return lines.join('\n');
+      }
+      if (drift.settingsChanged) {
+        lines.push('  scene settings changed (background, grid, layers, ...)');
+      }
+      const [from, to] = drift.rectCount;
+      lines.push(
+        `  ${drift.rectChanges.length} of ${from} rects changed` +
+          (from !== to ? `, ${from} rects before and ${to} now` : ''),
+      );
+      drift.rectChanges.slice(0, maxListedRects).forEach((change) => {
+        if (!change.description) {
+          lines.push(`  rect ${change.index} removed`);
+        } else {
+          lines.push(
+            `  rect ${change.index}${change.from ? '' : ' added'}: ${
+              change.description
+            }`,
+          );
+        }
+      });
+      if (drift.rectChanges.length > maxListedRects) {
+        lines.push(
+          `  and ${drift.rectChanges.length - maxListedRects} more rects`,
+        );
+      }
+      return lines.join('\n');
+    })
+    .join('\n');
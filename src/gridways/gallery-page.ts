@@ -0,0 +1,90 @@
+import { downloadBlob } from '../utils/download';
+import { RGBAImage } from '../utils/png';
+import { HASH_QUERY_PARAM } from '../utils/seed';
+import {
+  createContactSheet,
+  GalleryItem,
+  GalleryOptions,
+  galleryToCsv,
+  renderGalleryItem,
+} from './gallery';
+
+const imageToCanvas = (image: RGBAImage) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  canvas
+    .getContext('2d')!
+    .putImageData(new ImageData(image.data, image.width, image.height), 0, 0);
+  return canvas;
+};
+
+const featuresToText = (item: GalleryItem) =>
+  [
+    item.hash,
+    ...Object.keys(item.features).map(
+      (name) => `${name}: ${item.features[name]}`,
+    ),
+  ].join('\n');
+
+// thumbnail grid of tokens, each links to the full piece and shows its traits
+// on hover, rendering yields between thumbnails to keep the page responsive
+export const createGalleryPage = (
+  hashes: string[],
+  options: GalleryOptions = {},
+) => {
+  const items: GalleryItem[] = [];
+
+  const page = document.createElement('div');
+  Object.assign(page.style, { padding: '8px', font: '11px monospace' });
+  const toolbar = document.createElement('div');
+  const status = document.createElement('span');
+  const grid = document.createElement('div');
+  Object.assign(grid.style, {
+    display: 'flex',
+    flexWrap: 'wrap',
+    gap: '8px',
+    marginTop: '8px',
+  });
+
+  const addButton = (text: string, onClick: () => void) => {
+    const button = document.createElement('button');
+    button.textContent = text;
+    button.addEventListener('click', onClick);
+    toolbar.appendChild(button);
+  };
+  addButton('download contact sheet', () =>
+    imageToCanvas(createContactSheet(items.map((item) => item.image))).toBlob(
+      (blob) => blob && downloadBlob(blob, 'contact-sheet.png'),
+    ),
+  );
+  addButton('download csv', () =>
+    downloadBlob(
+      new Blob([galleryToCsv(items)], { type: 'text/csv' }),
+      'features.csv',
+    ),
+  );
+  toolbar.appendChild(status);
+  page.appendChild(toolbar);
+  page.appendChild(grid);
+  document.body.appendChild(page);
+
+  const renderNext = () => {
+    status.textContent = ` ${items.length} / ${hashes.length}`;
+    if (items.length === hashes.length) {
+      return;
+    }
+    const item = renderGalleryItem(hashes[items.length], options);
+    items.push(item);
+
+    const link = document.createElement('a');
+    link.href = `?${HASH_QUERY_PARAM}=${item.hash}`;
+    link.title = featuresToText(item);
+    link.appendChild(imageToCanvas(item.image));
+    grid.appendChild(link);
+    setTimeout(renderNext, 0);
+  };
+  renderNext();
+
+  return page;
+};
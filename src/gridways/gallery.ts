@@ -0,0 +1,105 @@
+import { createImage, RGBAImage } from '../utils/png';
+import { toCsv } from '../utils/csv';
+import { generateRandomHash, isValidHash } from '../utils/seed';
+import { getDimensions } from './aspect';
+import { extractFeatures, Features } from './features';
+import { rasterizeScene } from './rasterizer';
+import { createScene } from './scene';
+
+export interface GalleryItem {
+  hash: string;
+  features: Features;
+  image: RGBAImage;
+}
+
+export interface GalleryOptions {
+  scale?: number; // thumbnail size relative to the artwork size
+  aspectRatio?: number; // width over height, see aspect.ts
+  playhead?: number;
+}
+
+export interface ContactSheetOptions {
+  columns?: number;
+  padding?: number; // in pixels, around and between thumbnails
+}
+
+export const DEFAULT_GALLERY_SCALE = 0.05;
+
+// hashes from a comma or newline separated list, or `count` random hashes
+export const getGalleryHashes = (source: string | number): string[] => {
+  if (typeof source === 'number') {
+    return Array.from({ length: source }, () => generateRandomHash());
+  }
+  const hashes = source.split(/[\s,]+/).filter((hash) => hash.length > 0);
+  const invalid = hashes.filter((hash) => !isValidHash(hash));
+  if (invalid.length) {
+    throw new Error(`invalid token hashes: ${invalid.join(', ')}`);
+  }
+  return hashes;
+};
+
+// renders a token through the same gene and scene pipeline as the sketch
+export const renderGalleryItem = (
+  hash: string,
+  options: GalleryOptions = {},
+): GalleryItem => {
+  const {
+    scale = DEFAULT_GALLERY_SCALE,
+    playhead = 0,
+    aspectRatio = 1,
+  } = options;
+  const { features, gene } = extractFeatures(hash);
+  const scene = createScene(gene, ...getDimensions(aspectRatio));
+  return { hash, features, image: rasterizeScene(scene, { playhead, scale }) };
+};
+
+// lays the thumbnails out in a grid on a white sheet, row major
+export const createContactSheet = (
+  images: RGBAImage[],
+  options: ContactSheetOptions = {},
+): RGBAImage => {
+  const {
+    columns = Math.ceil(Math.sqrt(images.length)),
+    padding = 8,
+  } = options;
+  const rows = Math.ceil(images.length / columns);
+  const cellWidth = Math.max(0, ...images.map((image) => image.width));
+  const cellHeight = Math.max(0, ...images.map((image) => image.height));
+  const sheet = createImage(
+    columns * (cellWidth + padding) + padding,
+    rows * (cellHeight + padding) + padding,
+  );
+  sheet.data.fill(255);
+
+  images.forEach((image, i) => {
+    const left = padding + (i % columns) * (cellWidth + padding);
+    const top = padding + Math.floor(i / columns) * (cellHeight + padding);
+    for (let y = 0; y < image.height; y++) {
+      const from = y * image.width * 4;
+      sheet.data.set(
+        image.data.subarray(from, from + image.width * 4),
+        ((top + y) * sheet.width + left) * 4,
+      );
+    }
+  });
+  return sheet;
+};
+
+// one row per token, columns are the union of every trait name
+export const galleryToCsv = (items: GalleryItem[]) => {
+  const traitNames = Array.from(
+    new Set(
+      items.reduce(
+        (names: string[], item) => [...names, ...Object.keys(item.features)],
+        [],
+      ),
+    ),
+  );
+  return toCsv([
+    ['hash', ...traitNames],
+    ...items.map((item) => [
+      item.hash,
+      ...traitNames.map((name) => item.features[name] ?? ''),
+    ]),
+  ]);
+};
@@ -0,0 +1,197 @@
+import { AnimationEasings, Bound, Range, Vec2 } from '../types';
+import { DEFAULT_GRAIN_SIZE } from './constants';
+import { PartitioningStrategyName } from './partitioning';
+import { extractFeaturesFromSeed } from './features';
+
+export interface ColorPallete {
+  colors: string[];
+  tintColors: string[];
+  pointilism?: number;
+  type: string;
+}
+
+export interface SimpleColorPallete extends ColorPallete {
+  colorRatios: number[];
+  type: 'simple';
+}
+
+// gradient direction relative to the rect, 'along' follows the line the rect
+// was partitioned from while 'across' runs perpendicular to it
+export type GradientDirection = 'along' | 'across' | 'horizontal' | 'vertical';
+
+// max amount of colors in a gradient pallete the shader can blend
+export const MAX_COLOR_STOPS = 8;
+
+// every rect painted with a gradient pallete blends through all of its colors,
+// colors are evenly spaced stops and only the first tint color is used
+export interface GradientColorPallete extends ColorPallete {
+  direction?: GradientDirection;
+  type: 'gradient';
+}
+
+// inner shapes a rect can carry, drawn in the accent color, see shapes.ts
+export type MotifName = 'none' | 'circle' | 'stripes' | 'half';
+
+//Gene type all visual elements are in pixels unless specified
+export interface Gene {
+  seed: string;
+  animation: AnimationEasings & {
+    // animation related properties, a tick is a single frame of the loop
+    // easing names resolve through getEasing, phaseEasings override per breath phase
+    endDelayInTicks: number; // after the end of the animation, number of ticks to hold at the last frame before restarting
+    startDelayInTicks: number; //before the animation, number of ticks to hold at first frame before starting
+    breathDurationInTicksPerUnit: number; // the amount of ticks to animate for each unit in the grid
+    bloomMaxStartDelayInTicks: number; // the max amount of ticks that the rects can start animation, bloom refers to the effect of some rects starting after others
+  };
+  foreground: {
+    // foreground rect related preperties
+    pointilism: number; // simplex coefficient for the tinting effect on rects
+    colorPointilism: number; // simplex coefficient for color grouping
+    colorPalletes: ColorPallete[]; // color palletes to use in the work
+    colorPalletesRatio: number[]; // ratio of each color pallete to be painted in the piece
+    colorSprinkleRatio: number; // random injection of color into grid
+    colorPalletesSprinkleRatio: number[]; // ratio of each color pallete when randomly injecting
+    grainSize?: number; // size of a grain of the tint texture in pixels, defaults to DEFAULT_GRAIN_SIZE
+    shapes?: {
+      // signed distance shading of the rects, flat rects when unset
+      cornerRadius: number; // ratio of the short side of a rect from [0,0.5], 0.5 turns rects into pills
+      strokeWidth: number; // border inside the rect edge in pixels, 0 for none
+      accentColor?: string; // color of borders and motifs, defaults to the tint color of the rect
+      motifs: MotifName[]; // motifs to pick from for each rect
+      motifRatios: number[]; // ratio of each motif to be painted in the piece
+    };
+  };
+  background: {
+    colors: [string, string]; // background color, two for the gradient
+    tintColor: string; // tinting/texture color
+    pointilism: number; // simplex coefficient for tint color texture
+    grainSize?: number; // size of a grain of the tint texture in pixels, defaults to DEFAULT_GRAIN_SIZE
+  };
+  gridLinesToRects: {
+    gitter: Range; // ratio of the gap from [0,1] that the rect can be slightly offset to
+  };
+  gridPartitioning: {
+    gap: number; // gap in pixels between rects
+    unitSize: Bound; // size of a unit in the grid in pixels
+    gridSizeInUnits: Bound; // grid size in units of the grid
+    vertOrHorzRatio: number; // ratio from [0,1], higher values favor horizontal splits
+    strategy?: PartitioningStrategyName; // partitioning algorithm, defaults to binary
+    minSegmentLength?: number; // in units, shortest side a cut can leave (squarified, weighted-bsp)
+    maxSegmentLength?: number; // in units, longer regions are always cut (weighted-bsp)
+  };
+  layers?: {
+    // overlapping layers drawn under the rects, see layers.ts
+    backgroundRects?: {
+      darken: number; // how much darker than the background the ghost rects are, [0,1]
+    };
+    shadow?: {
+      offset: Vec2; // offset of the duplicate from its rect in pixels
+      color?: string; // flat shadow color, defaults to the rect colors darkened
+      darken?: number; // how much darker than its rect the duplicate is when no color is set, [0,1]
+    };
+  };
+  postProcessing?: {
+    // passes over the rendered image, applied in this order and off when unset, see post-processing.ts
+    bloom?: {
+      threshold: number; // brightness from [0,1] above which colors glow
+      strength: number; // amount of glow added
+      spread: number; // radius of the glow in pixels
+    };
+    chromaticAberration?: {
+      offset: number; // shift of the red and blue channels at the edges in pixels
+    };
+    vignette?: {
+      strength: number; // darkening at the corners from [0,1]
+      radius: number; // ratio of the center to corner distance left untouched, [0,1]
+    };
+    paper?: {
+      strength: number; // darkening of the fibres from [0,1]
+      fibreSize: number; // width of a fibre in pixels
+    };
+    filmGrain?: {
+      strength: number; // brightness swing of a grain from [0,1]
+      grainSize?: number; // size of a grain in pixels, defaults to DEFAULT_GRAIN_SIZE
+    };
+  };
+}
+
+export const DEFAULT_GENE: Gene = {
+  seed: '2',
+  animation: {
+    startDelayInTicks: 1000,
+    endDelayInTicks: 0,
+    breathDurationInTicksPerUnit: 80,
+    bloomMaxStartDelayInTicks: 300,
+    easing: 'easeOutElastic',
+  },
+  foreground: {
+    pointilism: 0.4,
+    colorPalletes: [
+      {
+        colors: ['#056676', '#5eaaa8', '#a3d2ca'],
+        tintColors: ['#f6f5f5', '#f6f5f5', '#f6f5f5'],
+        colorRatios: [0.33, 0.33, 0.34],
+        type: 'simple',
+      } as SimpleColorPallete,
+      {
+        colors: ['#ffc7c7', '#ffe2e2', '#f6f6f6'],
+        tintColors: ['#f6f5f5', '#f6f5f5', '#f6f5f5'],
+        colorRatios: [0.33, 0.33, 0.34],
+        type: 'simple',
+      } as SimpleColorPallete,
+      {
+        colors: ['#9ab3f5', '#a3d8f4', '#b9fffc'],
+        tintColors: ['#7579e7', '#7579e7', '#7579e7'],
+        colorRatios: [0.33, 0.33, 0.34],
+        type: 'simple',
+      } as SimpleColorPallete,
+      {
+        colors: ['#555555', '#cdc9c3', '#fbf7f0'],
+        tintColors: ['#d9e4dd', '#d9e4dd', '#d9e4dd'],
+        colorRatios: [0.33, 0.33, 0.34],
+        type: 'simple',
+      } as SimpleColorPallete,
+    ],
+    colorPalletesRatio: [0.25, 0.25, 0.25, 0.25],
+    colorSprinkleRatio: 0.0,
+    colorPalletesSprinkleRatio: [0, 0, 0, 0],
+    colorPointilism: 0.01,
+    grainSize: DEFAULT_GRAIN_SIZE,
+  },
+  background: {
+    colors: ['#14274e', '#394867'],
+    tintColor: '#f6f6f6',
+    pointilism: 0.08,
+    grainSize: DEFAULT_GRAIN_SIZE,
+  },
+  gridLinesToRects: {
+    gitter: [0, 0],
+  },
+  gridPartitioning: {
+    gap: 50,
+    unitSize: [50, 50],
+    gridSizeInUnits: [30, 30],
+    vertOrHorzRatio: 0.5,
+    strategy: 'binary',
+  },
+};
+
+// the longest a line can breathe is the full span of the grid, so the timeline
+// length only depends on the gene and not on the partitioning outcome
+export const getTimelineDurationInTicks = (gene: Gene) => {
+  const { animation, gridPartitioning } = gene;
+  return (
+    animation.bloomMaxStartDelayInTicks +
+    animation.breathDurationInTicksPerUnit *
+      Math.max(...gridPartitioning.gridSizeInUnits)
+  );
+};
+
+// total number of frames in one loop of the animated mode
+export const getLoopDurationInTicks = (gene: Gene) =>
+  gene.animation.startDelayInTicks +
+  getTimelineDurationInTicks(gene) +
+  gene.animation.endDelayInTicks;
+
+export const generateGene = (seed: string): Gene =>
+  extractFeaturesFromSeed(seed).gene;
@@ -1 +1,8 @@
 export { sketch } from './sketch';
+export * from './aspect';
+export * from './constants';
+export * from './gene';
+export * from './features';
+export * from './scene';
+export * from './svg';
+export * from './validation';
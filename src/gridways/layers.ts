@@ -0,0 +1,117 @@
+import { darken } from 'polished';
+
+import { Rect, Vec2 } from '../types';
+import { Gene } from './gene';
+import { RectProps } from './layout';
+
+export type LayerName = 'background-rects' | 'shadows' | 'rects';
+
+// rects of every layer with their props, parallel arrays like rects and
+// rectProps elsewhere, zIndex is set on every props
+export interface LayeredRects {
+  rects: Rect[];
+  rectProps: RectProps[];
+  layerNames: LayerName[];
+}
+
+export interface SceneLayers {
+  backgroundRectProps?: RectProps[];
+  shadow?: {
+    offset: Vec2;
+    rectProps: RectProps[];
+  };
+}
+
+// higher zIndex is drawn on top, depth is zIndex over MAX_Z_INDEX
+export const MAX_Z_INDEX = 1024;
+// the ghost rects sit under every rect, the background under everything
+export const BACKGROUND_RECTS_Z_INDEX = -1;
+export const BACKGROUND_Z_INDEX = -(MAX_Z_INDEX - 1);
+// a shadow falls on the rects under its rect but never on its own rect
+const SHADOW_Z_INDEX_OFFSET = -0.5;
+
+const DEFAULT_SHADOW_DARKEN = 0.2;
+
+// layer props are resolved once per scene, only their rects move
+export const createSceneLayers = (
+  gene: Gene,
+  rectProps: RectProps[],
+): SceneLayers => {
+  const { layers = {}, background } = gene;
+  const sceneLayers: SceneLayers = {};
+
+  if (layers.backgroundRects) {
+    const amount = layers.backgroundRects.darken;
+    sceneLayers.backgroundRectProps = rectProps.map((props) => ({
+      colors: [
+        darken(amount, background.colors[0]),
+        darken(amount, background.colors[1]),
+      ],
+      tintColor: background.colors[0],
+      pointilism: 0,
+      isVert: props.isVert,
+      isGradientVert: props.isVert,
+      zIndex: BACKGROUND_RECTS_Z_INDEX,
+      startDelayInTicks: 0,
+      breathDurationInTicks: 0,
+    }));
+  }
+
+  if (layers.shadow) {
+    const { color, darken: amount = DEFAULT_SHADOW_DARKEN } = layers.shadow;
+    sceneLayers.shadow = {
+      offset: layers.shadow.offset,
+      rectProps: rectProps.map((props) => ({
+        ...props,
+        colors: color ? [color] : props.colors.map((c) => darken(amount, c)),
+        tintColor: color ?? darken(amount, props.tintColor),
+        pointilism: 0,
+        // shadows keep the outline of their rect but not its details
+        strokeWidth: 0,
+        motif: undefined,
+        zIndex: (props.zIndex ?? 0) + SHADOW_Z_INDEX_OFFSET,
+      })),
+    };
+  }
+
+  return sceneLayers;
+};
+
+const offsetRect = (rect: Rect, offset: Vec2): Rect => [
+  [rect[0][0] + offset[0], rect[0][1] + offset[1]],
+  [rect[1][0] + offset[0], rect[1][1] + offset[1]],
+];
+
+// every layer at a playhead, the rects come first so renderers that let the
+// first rect win a tie keep their order within a zIndex, the ghost rects sit
+// where the rects rest before any breathing
+export const layerRects = (
+  layers: SceneLayers,
+  rects: Rect[],
+  rectProps: RectProps[],
+  getRestingRects: () => Rect[],
+): LayeredRects => {
+  const layered: LayeredRects = {
+    rects: [...rects],
+    rectProps: rectProps.map((props) => ({
+      ...props,
+      zIndex: props.zIndex ?? 0,
+    })),
+    layerNames: rects.map((): LayerName => 'rects'),
+  };
+
+  const { shadow, backgroundRectProps } = layers;
+  if (shadow) {
+    layered.rects.push(...rects.map((rect) => offsetRect(rect, shadow.offset)));
+    layered.rectProps.push(...shadow.rectProps);
+    layered.layerNames.push(...rects.map((): LayerName => 'shadows'));
+  }
+  if (backgroundRectProps) {
+    layered.rects.push(...getRestingRects());
+    layered.rectProps.push(...backgroundRectProps);
+    layered.layerNames.push(
+      ...backgroundRectProps.map((): LayerName => 'background-rects'),
+    );
+  }
+  return layered;
+};
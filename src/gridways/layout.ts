@@ -0,0 +1,234 @@
+import * as SimplexNoise from 'simplex-noise';
+
+import { Animation, Cord, Line, Rect } from '../types';
+import { newArray } from '../utils';
+import { RandomSource, randomRangeFactory, Rng } from '../utils/random';
+import {
+  Gene,
+  getTimelineDurationInTicks,
+  GradientColorPallete,
+  MotifName,
+  SimpleColorPallete,
+} from './gene';
+
+export interface LineProps {
+  gitterRatio: [number, number]; // ratio of a unit plus gap the rect end extends to
+}
+
+export interface RectProps {
+  colors: string[]; // a single color, or evenly spaced gradient stops
+  tintColor: string;
+  pointilism?: number; // overrides the foreground pointilism when set
+  isVert: boolean; // orientation of the line the rect was converted from
+  isGradientVert: boolean; // true when the gradient runs along the y axis
+  zIndex?: number; // unset on generated rects, set by layers, see layers.ts
+  cornerRadius?: number; // ratio of the short side, see Gene['foreground']['shapes']
+  strokeWidth?: number; // in pixels
+  accentColor?: string; // color of the stroke and motif
+  motif?: MotifName;
+  startDelayInTicks: number;
+  breathDurationInTicks: number;
+}
+
+// converts lines in grid units to rects in pixels, centered in the canvas
+export const convertGridLinesToRects = (
+  lines: Line[],
+  lineProps: LineProps[],
+  gridPartitioning: Gene['gridPartitioning'],
+  width: number,
+  height: number,
+): Rect[] => {
+  const { unitSize, gridSizeInUnits, gap } = gridPartitioning;
+
+  const totalGridBounds = [
+    unitSize[0] * gridSizeInUnits[0] + gap * (gridSizeInUnits[0] - 1),
+    unitSize[1] * gridSizeInUnits[1] + gap * (gridSizeInUnits[1] - 1),
+  ];
+
+  const topLeft = [
+    (width - totalGridBounds[0]) / 2,
+    (height - totalGridBounds[1]) / 2,
+  ];
+
+  return lines
+    .map(
+      (l, i): Rect => {
+        return [
+          [l[0][0] * (unitSize[0] + gap), l[0][1] * (unitSize[1] + gap)],
+          [
+            (l[1][0] + lineProps[i].gitterRatio[0]) * (unitSize[0] + gap) - gap,
+            (l[1][1] + lineProps[i].gitterRatio[1]) * (unitSize[1] + gap) - gap,
+          ],
+        ];
+      },
+    )
+    .map(
+      (r): Rect => {
+        return [
+          [topLeft[0] + r[0][0], topLeft[1] + r[0][1]],
+          [topLeft[0] + r[1][0], topLeft[1] + r[1][1]],
+        ];
+      },
+    );
+};
+
+export const generateLineProps = (
+  rand: RandomSource,
+  lines: Line[],
+  gridLinesToRects: Gene['gridLinesToRects'],
+): LineProps[] => {
+  const { random } = randomRangeFactory(rand);
+  const { gitter } = gridLinesToRects;
+  return lines.map((l) => {
+    const gitterRatio: [number, number] = [
+      1 - random(...gitter),
+      1 - random(...gitter),
+    ];
+    return {
+      gitterRatio,
+    };
+  });
+};
+
+// assigns each line a color pallete through simplex color grouping, plus its
+// bloom delay and breath duration for the animated mode, the offset of the
+// grouping, the sprinkles and the colors draw from forks of their own
+export const generateRectProps = (
+  rng: Rng,
+  simplex: SimplexNoise,
+  lines: Line[],
+  gene: Gene,
+): RectProps[] => {
+  const { foreground, animation } = gene;
+  const offsetRng = rng.fork('offset');
+  const sprinkleRng = rng.fork('sprinkle');
+  const colorRng = rng.fork('color');
+
+  const colorPtOffset = [
+    offsetRng.random(0, 10000, 'int'),
+    offsetRng.random(0, 10000, 'int'),
+  ];
+  return newArray(lines.length).map(
+    (_: any, i: number): RectProps => {
+      const isVert = lines[i][0][0] === lines[i][1][0];
+      const colorPt: Cord = [
+        foreground.colorPointilism *
+          ((lines[i][0][0] + lines[i][1][0]) / 2 + colorPtOffset[0]),
+        foreground.colorPointilism *
+          ((lines[i][0][1] + lines[i][1][1]) / 2 + colorPtOffset[1]),
+      ];
+
+      let colorPalleteIndex = (() => {
+        // generally simplex has a noise from [0.7xx, 0.7xx]
+        let colorPalleteNormalizedValue = Math.min(
+          Math.abs(simplex.noise2D(...colorPt)) / 0.7,
+          0.99,
+        );
+        for (let i = 0; i < foreground.colorPalletesRatio.length; i++) {
+          if (colorPalleteNormalizedValue < foreground.colorPalletesRatio[i]) {
+            return i;
+          }
+
+          colorPalleteNormalizedValue -= foreground.colorPalletesRatio[i];
+        }
+        return -1;
+      })();
+
+      if (sprinkleRng.next() < foreground.colorSprinkleRatio) {
+        colorPalleteIndex = sprinkleRng.randomByWeights(
+          foreground.colorPalletesSprinkleRatio,
+        );
+      }
+
+      const startDelayInTicks = Math.floor(
+        animation.bloomMaxStartDelayInTicks *
+          Math.min(
+            Math.abs(
+              simplex.noise2D(
+                colorPt[0] * colorPalleteIndex,
+                colorPt[1] * colorPalleteIndex,
+              ),
+            ) / 0.9,
+            1,
+          ),
+      );
+
+      const breathDurationInTicks =
+        animation.breathDurationInTicksPerUnit *
+        ((isVert
+          ? lines[i][1][1] - lines[i][0][1]
+          : lines[i][1][0] - lines[i][0][0]) +
+          1);
+
+      const colorPallete = foreground.colorPalletes[colorPalleteIndex];
+
+      if (colorPallete.type === 'simple') {
+        const colorIndex = colorRng.randomByWeights(
+          (colorPallete as SimpleColorPallete).colorRatios,
+        );
+
+        return {
+          colors: [colorPallete.colors[colorIndex]],
+          tintColor: colorPallete.tintColors[colorIndex],
+          pointilism: colorPallete.pointilism,
+          isVert,
+          isGradientVert: isVert,
+          startDelayInTicks,
+          breathDurationInTicks,
+        };
+      }
+
+      if (colorPallete.type === 'gradient') {
+        const direction =
+          (colorPallete as GradientColorPallete).direction ?? 'along';
+        return {
+          colors: colorPallete.colors,
+          tintColor: colorPallete.tintColors[0],
+          pointilism: colorPallete.pointilism,
+          isVert,
+          isGradientVert:
+            direction === 'vertical' ||
+            (direction === 'along' && isVert) ||
+            (direction === 'across' && !isVert),
+          startDelayInTicks,
+          breathDurationInTicks,
+        };
+      }
+
+      throw new Error(
+        `unknown color pallete type at index ${colorPalleteIndex}: ${colorPallete.type}`,
+      );
+    },
+  );
+};
+
+export const createTimelineAnimation = (
+  gene: Gene,
+  rectProps: RectProps[],
+): Animation => {
+  const { animation } = gene;
+  const durationInTicks = getTimelineDurationInTicks(gene);
+
+  return {
+    startDelayInTicks: animation.startDelayInTicks,
+    durationInTicks,
+    endDelayInTicks: animation.endDelayInTicks,
+    props: {},
+    type: 'timeline',
+    subAnimations: rectProps.map((r, i) => {
+      return {
+        startDelayInTicks: r.startDelayInTicks,
+        durationInTicks: r.breathDurationInTicks,
+        endDelayInTicks:
+          durationInTicks - r.breathDurationInTicks - r.startDelayInTicks,
+        props: {
+          lineIndex: i,
+          easing: animation.easing,
+          phaseEasings: animation.phaseEasings,
+        },
+        type: 'breath',
+        subAnimations: [],
+      };
+    }),
+  };
+};
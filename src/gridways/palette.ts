@@ -0,0 +1,179 @@
+import {
+  convertHexToOklch,
+  convertOklchToHex,
+  getContrastRatio,
+} from '../utils/color';
+
+export type Harmony = 'analogous' | 'triadic' | 'complementary';
+
+export const HARMONIES: Harmony[] = ['analogous', 'triadic', 'complementary'];
+
+// wcag contrast every foreground color keeps against both background stops
+export const MIN_CONTRAST_RATIO = 1.4;
+// palettes of colors.json scoring below this are replaced by a harmony
+export const MIN_PALLETE_CONTRAST = 1.3;
+
+// oklab lightness offsets of the shades of a pallete color
+const SHADE_LIGHTNESS = 0.1;
+const GRADIENT_LIGHTNESS: [number, number] = [-0.08, 0.12];
+// the background gradient darkens by this lightness towards the left
+const BACKGROUND_GRADIENT_LIGHTNESS = -0.12;
+// chroma multipliers of the texture tint colors
+const TINT_CHROMA = 1.8;
+const BACKGROUND_TINT_CHROMA = 1.4;
+
+const LIGHTNESS_STEP = 0.005;
+// harmonies keep at least this much chroma so their hues are visible
+const MIN_HARMONY_CHROMA = 0.08;
+const ANALOGOUS_ANGLE = Math.PI / 6;
+
+export interface PalleteScore {
+  background: string; // the color that contrasts most with the others
+  contrast: number; // lowest contrast between the background and another color
+}
+
+export interface ResolvedPallete {
+  colors: string[];
+  background: string;
+  harmony?: Harmony; // set when the pallete was replaced by a harmony
+}
+
+const shiftLightness = (hex: string, offset: number) => {
+  const [L, C, h] = convertHexToOklch(hex);
+  return convertOklchToHex([L + offset, C, h]);
+};
+
+const scaleChroma = (hex: string, ratio: number) => {
+  const [L, C, h] = convertHexToOklch(hex);
+  return convertOklchToHex([L, C * ratio, h]);
+};
+
+// the color, a lighter and a darker shade, perceptually even unlike hsl
+export const getShades = (hex: string) => [
+  hex,
+  shiftLightness(hex, SHADE_LIGHTNESS),
+  shiftLightness(hex, -SHADE_LIGHTNESS),
+];
+
+export const getGradientStops = (hex: string) => [
+  shiftLightness(hex, GRADIENT_LIGHTNESS[0]),
+  hex,
+  shiftLightness(hex, GRADIENT_LIGHTNESS[1]),
+];
+
+export const getTintColor = (hex: string) => scaleChroma(hex, TINT_CHROMA);
+
+export const getBackgroundColors = (hex: string): [string, string] => [
+  hex,
+  shiftLightness(hex, BACKGROUND_GRADIENT_LIGHTNESS),
+];
+
+export const getBackgroundTintColor = (hex: string) =>
+  scaleChroma(hex, BACKGROUND_TINT_CHROMA);
+
+const getMinContrast = (hex: string, backgrounds: string[]) =>
+  Math.min(
+    ...backgrounds.map((background) => getContrastRatio(hex, background)),
+  );
+
+// moves the lightness of the color as little as possible until it contrasts
+// with every background, or as far as contrast grows when it can't
+export const enforceContrast = (
+  hex: string,
+  backgrounds: string[],
+  minContrast = MIN_CONTRAST_RATIO,
+) => {
+  if (getMinContrast(hex, backgrounds) >= minContrast) {
+    return hex;
+  }
+  const [L, C, h] = convertHexToOklch(hex);
+  let best = hex;
+  let bestContrast = getMinContrast(hex, backgrounds);
+  for (let offset = LIGHTNESS_STEP; offset <= 1; offset += LIGHTNESS_STEP) {
+    for (const lightness of [L - offset, L + offset]) {
+      if (lightness < 0 || lightness > 1) {
+        continue;
+      }
+      const candidate = convertOklchToHex([lightness, C, h]);
+      const contrast = getMinContrast(candidate, backgrounds);
+      if (contrast >= minContrast) {
+        return candidate;
+      }
+      if (contrast > bestContrast) {
+        best = candidate;
+        bestContrast = contrast;
+      }
+    }
+  }
+  return best;
+};
+
+// picks the background that stands out most from the rest of the pallete
+export const scorePallete = (colors: string[]): PalleteScore =>
+  colors.reduce(
+    (best: PalleteScore, background, i) => {
+      const contrast = getMinContrast(
+        background,
+        colors.filter((_, j) => j !== i),
+      );
+      return contrast > best.contrast ? { background, contrast } : best;
+    },
+    { background: colors[0], contrast: 0 },
+  );
+
+// four colors around the hue of the base color, the last one is a background
+// on the other end of the lightness scale
+export const generateHarmony = (base: string, harmony: Harmony): string[] => {
+  const [L, C, h] = convertHexToOklch(base);
+  const chroma = Math.max(C, MIN_HARMONY_CHROMA);
+  const hues = {
+    analogous: [h - ANALOGOUS_ANGLE, h, h + ANALOGOUS_ANGLE],
+    triadic: [h, h + (2 * Math.PI) / 3, h + (4 * Math.PI) / 3],
+    complementary: [h, h + Math.PI, h + ANALOGOUS_ANGLE],
+  }[harmony];
+  const lightness = Math.min(Math.max(L, 0.45), 0.75);
+  const backgroundLightness = lightness > 0.6 ? 0.22 : 0.94;
+  return [
+    ...hues.map((hue) => convertOklchToHex([lightness, chroma, hue])),
+    convertOklchToHex([backgroundLightness, chroma / 4, h]),
+  ];
+};
+
+// the pallete a token paints with, low contrast palletes of colors.json are
+// swapped for a harmony of their first color so the token keeps its palette
+export const resolvePallete = (
+  colors: string[],
+  palleteIndex: number,
+): ResolvedPallete => {
+  const score = scorePallete(colors);
+  if (score.contrast >= MIN_PALLETE_CONTRAST) {
+    return { colors, background: score.background };
+  }
+  const harmony = HARMONIES[palleteIndex % HARMONIES.length];
+  const harmonyColors = generateHarmony(colors[0], harmony);
+  return {
+    colors: harmonyColors,
+    background: harmonyColors[harmonyColors.length - 1],
+    harmony,
+  };
+};
+
+export interface PalleteReportEntry extends PalleteScore {
+  index: number;
+  colors: string[];
+  rejected: boolean;
+}
+
+// scores every pallete, sorted from the lowest contrast up
+export const scorePalletes = (palletes: string[][]): PalleteReportEntry[] =>
+  palletes
+    .map((colors, index) => {
+      const score = scorePallete(colors);
+      return {
+        index,
+        colors,
+        ...score,
+        rejected: score.contrast < MIN_PALLETE_CONTRAST,
+      };
+    })
+    .sort((a, b) => a.contrast - b.contrast);
@@ -0,0 +1,245 @@
+import { cloneDeep, get, set } from 'lodash';
+
+import { expandHex } from '../utils/color';
+import { joinPath } from '../utils/schema';
+import { Store } from '../utils/store';
+import { fitGene } from './aspect';
+import { DIMENSIONS } from './constants';
+import { Gene } from './gene';
+import { downloadGene, getGeneUrl } from './serialization';
+import { normalizeGene, validateGene } from './validation';
+
+interface RangeSpec {
+  pattern: RegExp; // matched against the path of a number in the gene
+  min: number;
+  max: number;
+  step: number;
+}
+
+interface Control {
+  path: string; // lodash path into the gene, e.g. background.colors[0]
+  range?: RangeSpec; // colors have no range
+}
+
+// numbers in the gene that get a slider, first match wins
+const RANGE_SPECS: RangeSpec[] = [
+  { pattern: /^gridPartitioning\.gap$/, min: 0, max: 200, step: 1 },
+  { pattern: /^gridPartitioning\.unitSize\[\d\]$/, min: 1, max: 400, step: 1 },
+  {
+    pattern: /^gridPartitioning\.gridSizeInUnits\[\d\]$/,
+    min: 1,
+    max: 80,
+    step: 1,
+  },
+  {
+    pattern: /^gridPartitioning\.vertOrHorzRatio$/,
+    min: 0,
+    max: 1,
+    step: 0.01,
+  },
+  { pattern: /^gridLinesToRects\.gitter\[\d\]$/, min: 0, max: 1, step: 0.01 },
+  { pattern: /^layers\.shadow\.offset\[\d\]$/, min: -100, max: 100, step: 1 },
+  { pattern: /darken$/, min: 0, max: 0.5, step: 0.005 },
+  { pattern: /cornerRadius$/, min: 0, max: 0.5, step: 0.01 },
+  { pattern: /strokeWidth$/, min: 0, max: 20, step: 0.5 },
+  { pattern: /motifRatios\[\d\]$/, min: 0, max: 1, step: 0.01 },
+  { pattern: /^postProcessing\.bloom\.spread$/, min: 0, max: 100, step: 1 },
+  {
+    pattern: /^postProcessing\.chromaticAberration\.offset$/,
+    min: 0,
+    max: 20,
+    step: 0.5,
+  },
+  { pattern: /^postProcessing\.\w+\.strength$/, min: 0, max: 1, step: 0.01 },
+  {
+    pattern: /^postProcessing\.\w+\.(threshold|radius)$/,
+    min: 0,
+    max: 1,
+    step: 0.01,
+  },
+  { pattern: /fibreSize$/, min: 1, max: 40, step: 0.5 },
+  { pattern: /grainSize$/, min: 0.25, max: 8, step: 0.25 },
+  { pattern: /colorPointilism$/, min: 0, max: 0.1, step: 0.001 },
+  { pattern: /pointilism$/, min: 0, max: 2, step: 0.01 },
+];
+
+const HEX_REGEX = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+// walks the gene for every number with a range spec and every hex color
+const getControls = (value: any, path = ''): Control[] => {
+  if (Array.isArray(value)) {
+    return value.reduce(
+      (controls: Control[], item, i) => [
+        ...controls,
+        ...getControls(item, joinPath(path, i)),
+      ],
+      [],
+    );
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.keys(value).reduce(
+      (controls: Control[], key) => [
+        ...controls,
+        ...getControls(value[key], joinPath(path, key)),
+      ],
+      [],
+    );
+  }
+  if (typeof value === 'number') {
+    const range = RANGE_SPECS.find((spec) => spec.pattern.test(path));
+    return range ? [{ path, range }] : [];
+  }
+  if (typeof value === 'string' && HEX_REGEX.test(value)) {
+    return [{ path }];
+  }
+  return [];
+};
+
+const createElement = <K extends keyof HTMLElementTagNameMap>(
+  tag: K,
+  style: Partial<CSSStyleDeclaration> = {},
+  text?: string,
+) => {
+  const element = document.createElement(tag);
+  Object.assign(element.style, style);
+  if (text !== undefined) {
+    element.textContent = text;
+  }
+  return element;
+};
+
+// issues createScene would throw on, the gene on the square DIMENSIONS it is
+// authored for and its grid fitted to the edition being rendered
+const validateEditionGene = (gene: Gene, dimensions: [number, number]) => {
+  const issues = validateGene(gene, DIMENSIONS);
+  return issues.length
+    ? issues
+    : validateGene(fitGene(gene, ...dimensions), dimensions);
+};
+
+// in page controls generated from the gene, every change is validated against
+// the dimensions of the edition and pushed to the store so the sketch
+// re-renders live
+export const createPanel = (
+  geneStore: Store<Gene>,
+  dimensions: [number, number],
+) => {
+  const initialGene = geneStore.get();
+  const controls = getControls(initialGene);
+
+  const panel = createElement('div', {
+    position: 'fixed',
+    top: '0',
+    right: '0',
+    width: '320px',
+    maxHeight: '100vh',
+    overflowY: 'auto',
+    padding: '8px',
+    background: 'rgba(255, 255, 255, 0.92)',
+    font: '11px monospace',
+    zIndex: '1000',
+  });
+  const issuesElement = createElement('pre', {
+    color: '#c62828',
+    whiteSpace: 'pre-wrap',
+    margin: '4px 0',
+  });
+
+  const inputs = new Map<string, HTMLInputElement>();
+  const readouts = new Map<string, HTMLSpanElement>();
+
+  const sync = (gene: Gene) => {
+    inputs.forEach((input, path) => {
+      const value = get(gene, path);
+      input.value = typeof value === 'string' ? expandHex(value) : `${value}`;
+      readouts.get(path)!.textContent =
+        typeof value === 'string' ? value : `${value}`;
+    });
+  };
+
+  const update = (path: string, value: number | string) => {
+    const nextGene = cloneDeep(geneStore.get());
+    set(nextGene, path, value);
+    const issues = validateEditionGene(nextGene, dimensions);
+    issuesElement.textContent = issues
+      .map((issue) => `${issue.path}: ${issue.message}`)
+      .join('\n');
+    readouts.get(path)!.textContent = `${value}`;
+    // ratios are stored normalized so the other sliders show the shares rendered
+    if (!issues.length) {
+      geneStore.set(normalizeGene(nextGene));
+    }
+  };
+
+  // one section per top level key of the gene
+  const sections = new Map<string, HTMLElement>();
+  controls.forEach(({ path, range }) => {
+    const sectionName = path.split(/[.[]/)[0];
+    if (!sections.has(sectionName)) {
+      const section = createElement('fieldset', { margin: '4px 0' });
+      section.appendChild(createElement('legend', {}, sectionName));
+      sections.set(sectionName, section);
+      panel.appendChild(section);
+    }
+
+    const row = createElement('label', {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '4px',
+    });
+    const input = createElement('input', { flex: '1' });
+    if (range) {
+      input.type = 'range';
+      input.min = `${range.min}`;
+      input.max = `${range.max}`;
+      input.step = `${range.step}`;
+    } else {
+      input.type = 'color';
+    }
+    input.addEventListener('input', () =>
+      update(path, range ? Number(input.value) : input.value),
+    );
+    const readout = createElement('span', { width: '56px' });
+    row.appendChild(
+      createElement(
+        'span',
+        { width: '140px', overflow: 'hidden' },
+        path.slice(sectionName.length + 1),
+      ),
+    );
+    row.appendChild(input);
+    row.appendChild(readout);
+    sections.get(sectionName)!.appendChild(row);
+    inputs.set(path, input);
+    readouts.set(path, readout);
+  });
+
+  const buttons = createElement('div', { display: 'flex', gap: '4px' });
+  const addButton = (text: string, onClick: () => void) => {
+    const button = createElement('button', {}, text);
+    button.addEventListener('click', onClick);
+    buttons.appendChild(button);
+  };
+  addButton('export json', () => downloadGene(geneStore.get()));
+  // without the clipboard or its permission the url is shown to copy by hand
+  addButton('copy url', () => {
+    const url = getGeneUrl(geneStore.get());
+    const showUrl = () => window.prompt('copy the url of this gene', url);
+    if (!navigator.clipboard) {
+      showUrl();
+      return;
+    }
+    navigator.clipboard.writeText(url).catch(showUrl);
+  });
+  addButton('reset', () => {
+    issuesElement.textContent = '';
+    geneStore.set(initialGene);
+  });
+  panel.insertBefore(issuesElement, panel.firstChild);
+  panel.insertBefore(buttons, panel.firstChild);
+
+  sync(initialGene);
+  geneStore.subscribe(sync);
+  document.body.appendChild(panel);
+  return panel;
+};
@@ -0,0 +1,469 @@
+import { Cord, Line, Rect } from '../types';
+import { RandomSource, randomRangeFactory } from '../utils/random';
+import { Gene } from './gene';
+
+// every strategy tiles the region with lines one unit thick, a line is either
+// vertical, horizontal or a single unit, so convertGridLinesToRects applies
+export type PartitioningStrategy = (
+  rand: RandomSource,
+  topLeft: Cord,
+  bottomRight: Cord,
+  gridPartitioning: Gene['gridPartitioning'],
+) => Line[];
+
+export type PartitioningStrategyName =
+  | 'binary'
+  | 'squarified'
+  | 'mondrian'
+  | 'weighted-bsp'
+  | 'spiral'
+  | 'concentric';
+
+export const DEFAULT_MIN_SEGMENT_LENGTH = 2;
+export const DEFAULT_MAX_SEGMENT_LENGTH = 8;
+
+// regions are inclusive of both corners, like lines
+const getRegionSize = (topLeft: Cord, bottomRight: Cord) => [
+  bottomRight[0] - topLeft[0] + 1,
+  bottomRight[1] - topLeft[1] + 1,
+];
+
+// fills the region with parallel lines, vertical lines when isVert
+export const fillRegionWithLines = (
+  topLeft: Cord,
+  bottomRight: Cord,
+  isVert: boolean,
+): Line[] => {
+  const lines: Line[] = [];
+  if (isVert) {
+    for (let x = topLeft[0]; x <= bottomRight[0]; x++) {
+      lines.push([
+        [x, topLeft[1]],
+        [x, bottomRight[1]],
+      ]);
+    }
+  } else {
+    for (let y = topLeft[1]; y <= bottomRight[1]; y++) {
+      lines.push([
+        [topLeft[0], y],
+        [bottomRight[0], y],
+      ]);
+    }
+  }
+  return lines;
+};
+
+// stripes run along the longer side of the region
+const fillRegion = (topLeft: Cord, bottomRight: Cord) => {
+  const [width, height] = getRegionSize(topLeft, bottomRight);
+  return fillRegionWithLines(topLeft, bottomRight, height >= width);
+};
+
+// cuts the region with a line at `at`, a column when isVert and a row otherwise,
+// and partitions what remains on each side of the cut
+const cutRegion = (
+  topLeft: Cord,
+  bottomRight: Cord,
+  isVert: boolean,
+  at: number,
+  partition: (topLeft: Cord, bottomRight: Cord) => Line[],
+): Line[] => {
+  const axis = isVert ? 0 : 1;
+  const line: Line = isVert
+    ? [
+        [at, topLeft[1]],
+        [at, bottomRight[1]],
+      ]
+    : [
+        [topLeft[0], at],
+        [bottomRight[0], at],
+      ];
+  const before: Cord = isVert
+    ? [at - 1, bottomRight[1]]
+    : [bottomRight[0], at - 1];
+  const after: Cord = isVert ? [at + 1, topLeft[1]] : [topLeft[0], at + 1];
+  return [
+    ...(at > topLeft[axis] ? partition(topLeft, before) : []),
+    line,
+    ...(at < bottomRight[axis] ? partition(after, bottomRight) : []),
+  ];
+};
+
+// generates partitions in the units of the gridSize, recursive binary splits
+// that drift toward the orientation favored by vertOrHorzRatio
+export const generateGridPartitioningInGridUnits = (
+  rand: RandomSource,
+  topLeft: Cord,
+  bottomRight: Cord,
+  vertOrHorzRatio = 0.5,
+): Line[] => {
+  const { random } = randomRangeFactory(rand);
+  // if bounds is in effect a dot
+  if (bottomRight[0] - topLeft[0] === 0 && bottomRight[1] - topLeft[1] === 0) {
+    return [[topLeft, bottomRight]];
+  }
+  let isVert = rand() > vertOrHorzRatio;
+  // if bound is a 1 by 2 line
+  if (
+    (bottomRight[0] - topLeft[0] === 1 && bottomRight[1] - topLeft[1] === 0) ||
+    (bottomRight[0] - topLeft[0] === 0 && bottomRight[1] - topLeft[1] === 1)
+  ) {
+    return [
+      [topLeft, topLeft],
+      [bottomRight, bottomRight],
+    ];
+  }
+  // if bounds is in effect a 2 by 2 square
+  if (bottomRight[0] - topLeft[0] === 1 && bottomRight[1] - topLeft[1] === 1) {
+    if (isVert) {
+      return [
+        [topLeft, [bottomRight[0] - 1, bottomRight[1]]],
+        [[topLeft[0] + 1, topLeft[1]], bottomRight],
+      ];
+    } else {
+      return [
+        [topLeft, [bottomRight[0], bottomRight[1] - 1]],
+        [[topLeft[0], topLeft[1] + 1], bottomRight],
+      ];
+    }
+  }
+
+  const startPt: Cord = [
+    isVert ? random(topLeft[0] + 1, bottomRight[0], 'int') : topLeft[0],
+    isVert ? topLeft[1] : random(topLeft[1] + 1, bottomRight[1], 'int'),
+  ];
+  const endPt: Cord = [
+    isVert ? startPt[0] : bottomRight[0],
+    isVert ? bottomRight[1] : startPt[1],
+  ];
+  const line: Line = [startPt, endPt];
+  const topOrLeftRect: Rect = [
+    topLeft,
+    [endPt[0] - (isVert ? 1 : 0), endPt[1] - (isVert ? 0 : 1)],
+  ];
+  const bottomOrRightRect: Rect = [
+    [startPt[0] + (isVert ? 1 : 0), startPt[1] + (isVert ? 0 : 1)],
+    bottomRight,
+  ];
+  // check if bounds are valid, if not provide no lines
+  const isTopOrLeftRectValid =
+    topOrLeftRect[1][0] >= topOrLeftRect[0][0] &&
+    topOrLeftRect[1][1] >= topOrLeftRect[0][1];
+  const isBottomOrRightRectValid =
+    bottomOrRightRect[1][0] >= bottomOrRightRect[0][0] &&
+    bottomOrRightRect[1][1] >= bottomOrRightRect[0][1];
+
+  const ratio = !isVert
+    ? vertOrHorzRatio / 2
+    : vertOrHorzRatio + (1 - vertOrHorzRatio) / 2;
+  return [
+    ...(isTopOrLeftRectValid
+      ? generateGridPartitioningInGridUnits(
+          rand,
+          topOrLeftRect[0],
+          topOrLeftRect[1],
+          ratio,
+        )
+      : []),
+    line,
+    ...(isBottomOrRightRectValid
+      ? generateGridPartitioningInGridUnits(
+          rand,
+          bottomOrRightRect[0],
+          bottomOrRightRect[1],
+          ratio,
+        )
+      : []),
+  ];
+};
+
+// treemap style splits that always cut across the longer side near its middle,
+// keeping regions close to square until they are small enough to fill
+export const generateSquarifiedPartitioning: PartitioningStrategy = (
+  rand,
+  topLeft,
+  bottomRight,
+  gridPartitioning,
+) => {
+  const { random } = randomRangeFactory(rand);
+  const minSegmentLength =
+    gridPartitioning.minSegmentLength ?? DEFAULT_MIN_SEGMENT_LENGTH;
+
+  const partition = (topLeft: Cord, bottomRight: Cord): Line[] => {
+    const [width, height] = getRegionSize(topLeft, bottomRight);
+    const isVert = width === height ? rand() > 0.5 : width > height;
+    const length = isVert ? width : height;
+    if (length < minSegmentLength * 2 + 1) {
+      return fillRegion(topLeft, bottomRight);
+    }
+    const axis = isVert ? 0 : 1;
+    const offset = Math.min(
+      Math.max(Math.round(length * random(0.35, 0.65)), minSegmentLength),
+      length - 1 - minSegmentLength,
+    );
+    return cutRegion(
+      topLeft,
+      bottomRight,
+      isVert,
+      topLeft[axis] + offset,
+      partition,
+    );
+  };
+  return partition(topLeft, bottomRight);
+};
+
+const MONDRIAN_MAX_DEPTH = 4;
+const MONDRIAN_STOP_RATIO = 0.25;
+
+// several parallel cuts per level, alternating orientation between levels and
+// occasionally leaving a region whole
+export const generateMondrianPartitioning: PartitioningStrategy = (
+  rand,
+  topLeft,
+  bottomRight,
+  gridPartitioning,
+) => {
+  const { random } = randomRangeFactory(rand);
+
+  const partition = (
+    topLeft: Cord,
+    bottomRight: Cord,
+    isVert: boolean,
+    depth: number,
+  ): Line[] => {
+    const axis = isVert ? 0 : 1;
+    const length = getRegionSize(topLeft, bottomRight)[axis];
+    if (
+      length < 3 ||
+      depth >= MONDRIAN_MAX_DEPTH ||
+      (depth > 0 && rand() < MONDRIAN_STOP_RATIO)
+    ) {
+      return fillRegion(topLeft, bottomRight);
+    }
+    const cutCount = random(1, Math.min(4, length - 1), 'int');
+    const cuts: number[] = [];
+    for (let i = 0; i < cutCount; i++) {
+      const at = random(topLeft[axis] + 1, bottomRight[axis], 'int');
+      if (cuts.indexOf(at) === -1) {
+        cuts.push(at);
+      }
+    }
+    cuts.sort((a, b) => a - b);
+
+    const lines: Line[] = [];
+    let start = topLeft[axis];
+    [...cuts, bottomRight[axis] + 1].forEach((at) => {
+      if (at > start) {
+        const regionTopLeft: Cord = isVert
+          ? [start, topLeft[1]]
+          : [topLeft[0], start];
+        const regionBottomRight: Cord = isVert
+          ? [at - 1, bottomRight[1]]
+          : [bottomRight[0], at - 1];
+        lines.push(
+          ...partition(regionTopLeft, regionBottomRight, !isVert, depth + 1),
+        );
+      }
+      if (at <= bottomRight[axis]) {
+        lines.push(
+          isVert
+            ? [
+                [at, topLeft[1]],
+                [at, bottomRight[1]],
+              ]
+            : [
+                [topLeft[0], at],
+                [bottomRight[0], at],
+              ],
+        );
+      }
+      start = at + 1;
+    });
+    return lines;
+  };
+  return partition(
+    topLeft,
+    bottomRight,
+    rand() > gridPartitioning.vertOrHorzRatio,
+    0,
+  );
+};
+
+const BSP_STOP_RATIO = 0.5;
+
+// binary space partitioning where both sides of a cut are at least
+// minSegmentLength units and regions longer than maxSegmentLength always split
+export const generateWeightedBspPartitioning: PartitioningStrategy = (
+  rand,
+  topLeft,
+  bottomRight,
+  gridPartitioning,
+) => {
+  const { random } = randomRangeFactory(rand);
+  const {
+    vertOrHorzRatio,
+    minSegmentLength = DEFAULT_MIN_SEGMENT_LENGTH,
+    maxSegmentLength = DEFAULT_MAX_SEGMENT_LENGTH,
+  } = gridPartitioning;
+
+  const partition = (topLeft: Cord, bottomRight: Cord): Line[] => {
+    const [width, height] = getRegionSize(topLeft, bottomRight);
+    const canCutVert = width >= minSegmentLength * 2 + 1;
+    const canCutHorz = height >= minSegmentLength * 2 + 1;
+    const mustCut = width > maxSegmentLength || height > maxSegmentLength;
+    if ((!canCutVert && !canCutHorz) || (!mustCut && rand() < BSP_STOP_RATIO)) {
+      return fillRegion(topLeft, bottomRight);
+    }
+    const isVert =
+      canCutVert && canCutHorz
+        ? width > maxSegmentLength && height <= maxSegmentLength
+          ? true
+          : height > maxSegmentLength && width <= maxSegmentLength
+          ? false
+          : rand() > vertOrHorzRatio
+        : canCutVert;
+    const axis = isVert ? 0 : 1;
+    const length = isVert ? width : height;
+    const offset = random(minSegmentLength, length - minSegmentLength, 'int');
+    return cutRegion(
+      topLeft,
+      bottomRight,
+      isVert,
+      topLeft[axis] + offset,
+      partition,
+    );
+  };
+  return partition(topLeft, bottomRight);
+};
+
+const SPIRAL_MAX_THICKNESS = 3;
+
+// peels one side of the region at a time, turning around the region so the
+// lines wind inwards
+export const generateSpiralPartitioning: PartitioningStrategy = (
+  rand,
+  topLeft,
+  bottomRight,
+) => {
+  const { random } = randomRangeFactory(rand);
+  const turn = rand() > 0.5 ? 1 : 3; // clockwise or counter clockwise
+
+  const partition = (
+    topLeft: Cord,
+    bottomRight: Cord,
+    side: number,
+  ): Line[] => {
+    if (topLeft[0] > bottomRight[0] || topLeft[1] > bottomRight[1]) {
+      return [];
+    }
+    const [width, height] = getRegionSize(topLeft, bottomRight);
+    const isVert = side % 2 === 1;
+    const length = isVert ? width : height;
+    const thickness = Math.min(
+      random(1, SPIRAL_MAX_THICKNESS + 1, 'int'),
+      length,
+    );
+    // sides are top, right, bottom and left
+    const peeled = [
+      [topLeft, [bottomRight[0], topLeft[1] + thickness - 1]],
+      [[bottomRight[0] - thickness + 1, topLeft[1]], bottomRight],
+      [[topLeft[0], bottomRight[1] - thickness + 1], bottomRight],
+      [topLeft, [topLeft[0] + thickness - 1, bottomRight[1]]],
+    ][side] as [Cord, Cord];
+    const remaining = [
+      [[topLeft[0], topLeft[1] + thickness], bottomRight],
+      [topLeft, [bottomRight[0] - thickness, bottomRight[1]]],
+      [topLeft, [bottomRight[0], bottomRight[1] - thickness]],
+      [[topLeft[0] + thickness, topLeft[1]], bottomRight],
+    ][side] as [Cord, Cord];
+    return [
+      ...fillRegionWithLines(peeled[0], peeled[1], isVert),
+      ...partition(remaining[0], remaining[1], (side + turn) % 4),
+    ];
+  };
+  return partition(topLeft, bottomRight, random(0, 4, 'int'));
+};
+
+// nested rings, each ring randomly lets its rows or its columns own the corners
+export const generateConcentricPartitioning: PartitioningStrategy = (
+  rand,
+  topLeft,
+  bottomRight,
+) => {
+  const partition = (topLeft: Cord, bottomRight: Cord): Line[] => {
+    if (topLeft[0] > bottomRight[0] || topLeft[1] > bottomRight[1]) {
+      return [];
+    }
+    if (topLeft[0] === bottomRight[0] || topLeft[1] === bottomRight[1]) {
+      return [[topLeft, bottomRight]];
+    }
+    const rowsOwnCorners = rand() > 0.5;
+    const rows = rowsOwnCorners
+      ? [topLeft[0], bottomRight[0]]
+      : [topLeft[0] + 1, bottomRight[0] - 1];
+    const columns = rowsOwnCorners
+      ? [topLeft[1] + 1, bottomRight[1] - 1]
+      : [topLeft[1], bottomRight[1]];
+    const ring: Line[] = [
+      [
+        [rows[0], topLeft[1]],
+        [rows[1], topLeft[1]],
+      ],
+      [
+        [bottomRight[0], columns[0]],
+        [bottomRight[0], columns[1]],
+      ],
+      [
+        [rows[0], bottomRight[1]],
+        [rows[1], bottomRight[1]],
+      ],
+      [
+        [topLeft[0], columns[0]],
+        [topLeft[0], columns[1]],
+      ],
+    ];
+    return [
+      ...ring.filter((l) => l[0][0] <= l[1][0] && l[0][1] <= l[1][1]),
+      ...partition(
+        [topLeft[0] + 1, topLeft[1] + 1],
+        [bottomRight[0] - 1, bottomRight[1] - 1],
+      ),
+    ];
+  };
+  return partition(topLeft, bottomRight);
+};
+
+export const PARTITIONING_STRATEGIES: {
+  [name in PartitioningStrategyName]: PartitioningStrategy;
+} = {
+  'binary': (rand, topLeft, bottomRight, gridPartitioning) =>
+    generateGridPartitioningInGridUnits(
+      rand,
+      topLeft,
+      bottomRight,
+      gridPartitioning.vertOrHorzRatio,
+    ),
+  'squarified': generateSquarifiedPartitioning,
+  'mondrian': generateMondrianPartitioning,
+  'weighted-bsp': generateWeightedBspPartitioning,
+  'spiral': generateSpiralPartitioning,
+  'concentric': generateConcentricPartitioning,
+};
+
+// partitions the whole grid with the strategy picked in the gene
+export const partitionGrid = (
+  rand: RandomSource,
+  gridPartitioning: Gene['gridPartitioning'],
+): Line[] => {
+  const { gridSizeInUnits, strategy = 'binary' } = gridPartitioning;
+  const generate = PARTITIONING_STRATEGIES[strategy];
+  if (!generate) {
+    throw new Error(`unknown partitioning strategy: ${strategy}`);
+  }
+  return generate(
+    rand,
+    [0, 0],
+    [gridSizeInUnits[0] - 1, gridSizeInUnits[1] - 1],
+    gridPartitioning,
+  );
+};
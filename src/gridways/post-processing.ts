@@ -0,0 +1,332 @@
+import * as glslify from 'glslify';
+
+import { toGlslFloat } from '../utils/glsl';
+import { DEFAULT_GRAIN_SIZE } from './constants';
+import { Gene } from './gene';
+import { getViewportUniforms, Viewport } from './viewport';
+
+export type PostProcessing = NonNullable<Gene['postProcessing']>;
+export type PostProcessingPassName = keyof PostProcessing;
+
+// passes run in this order whatever the order of the keys in the gene
+export const POST_PROCESSING_PASSES: PostProcessingPassName[] = [
+  'bloom',
+  'chromaticAberration',
+  'vignette',
+  'paper',
+  'filmGrain',
+];
+
+// glow is sampled on a golden angle spiral of this many taps
+export const BLOOM_TAPS = 32;
+export const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+// distance from the vignette radius over which the shade fades in
+export const VIGNETTE_SOFTNESS = 0.5;
+// fibres are this many times longer than wide
+export const PAPER_FIBRE_STRETCH = 8;
+// mean of a fibre, fibres smaller than a pixel fade to it like the grain
+export const PAPER_FIBRE_MEAN = 0.35;
+
+// passes work in full image coordinates which outgrow mediump at print sizes,
+// webgl 1 doesn't guarantee highp in fragment shaders so it falls back
+const FRAGMENT_PRECISION_GLSL = `
+#ifdef GL_FRAGMENT_PRECISION_HIGH
+precision highp float;
+#else
+precision mediump float;
+#endif
+`;
+
+// constants the pass shaders share with the typescript code, interpolated as
+// defines so the two never disagree
+const PASS_DEFINES_GLSL = `
+#define BLOOM_TAPS ${BLOOM_TAPS}
+#define GOLDEN_ANGLE ${toGlslFloat(GOLDEN_ANGLE)}
+#define VIGNETTE_SOFTNESS ${toGlslFloat(VIGNETTE_SOFTNESS)}
+#define PAPER_FIBRE_STRETCH ${toGlslFloat(PAPER_FIBRE_STRETCH)}
+#define PAPER_FIBRE_MEAN ${toGlslFloat(PAPER_FIBRE_MEAN)}
+`;
+
+export const getPostProcessingPasses = (postProcessing: PostProcessing = {}) =>
+  POST_PROCESSING_PASSES.filter((name) => postProcessing[name]);
+
+// how far outside a pixel the passes read in scene pixels, tiles are rendered
+// with this margin so passes are seamless across tiles. Chained passes read the
+// neighbourhood of their predecessor's output, so their reaches add up
+export const getPostProcessingMargin = (postProcessing: PostProcessing = {}) =>
+  (postProcessing.bloom?.spread ?? 0) +
+  (postProcessing.chromaticAberration?.offset ?? 0);
+
+// uniforms of each pass, named after its parameters in the gene
+const PASS_UNIFORMS: { [name in PostProcessingPassName]: string[] } = {
+  bloom: ['threshold', 'strength', 'spread'],
+  chromaticAberration: ['offset'],
+  vignette: ['strength', 'radius'],
+  paper: ['strength', 'fibreSize'],
+  filmGrain: ['strength', 'grainSize'],
+};
+
+const getPassUniforms = (
+  name: PostProcessingPassName,
+  postProcessing: PostProcessing,
+) =>
+  name === 'filmGrain'
+    ? {
+        grainSize: DEFAULT_GRAIN_SIZE,
+        ...postProcessing.filmGrain,
+      }
+    : { ...postProcessing[name] };
+
+const FULLSCREEN_QUAD = [-1, -1, 1, -1, -1, 1, -1, 1, 1, -1, 1, 1];
+
+export interface PostProcessor {
+  // draws the scene into a framebuffer padded by the margin of the passes, runs
+  // the passes and copies the viewport into the bound framebuffer
+  draw: (
+    postProcessing: PostProcessing,
+    viewport: Viewport,
+    drawScene: (viewport: Viewport) => void,
+  ) => void;
+}
+
+export const createPostProcessor = (regl: any): PostProcessor => {
+  const shaders: { [name in PostProcessingPassName]: string } = {
+    bloom: glslify`
+                          ${FRAGMENT_PRECISION_GLSL}
+
+                          ${PASS_DEFINES_GLSL}
+
+                          uniform sampler2D source;
+                          uniform vec2 sourceSize;
+                          uniform vec2 resolution;
+                          uniform vec2 fragCoordOffset;
+                          uniform float scale;
+                          uniform float threshold;
+                          uniform float strength;
+                          uniform float spread;
+
+                          // clamped to the image so tiles and whole renders agree at the borders
+                          vec4 sampleImage (vec2 fragCoord) {
+                              vec2 clamped = clamp(fragCoord, vec2(0.5), resolution - 0.5);
+                              return texture2D(source, (clamped - fragCoordOffset) / sourceSize);
+                          }
+
+                          void main () {
+                              vec2 fragCoord = gl_FragCoord.xy + fragCoordOffset;
+                              vec4 color = sampleImage(fragCoord);
+                              vec3 glow = vec3(0.0);
+                              for (int i = 0; i < BLOOM_TAPS; i++) {
+                                  float r = sqrt((float(i) + 0.5) / float(BLOOM_TAPS)) * spread * scale;
+                                  float a = float(i) * GOLDEN_ANGLE;
+                                  vec3 tap = sampleImage(fragCoord + r * vec2(cos(a), sin(a))).rgb;
+                                  glow += max(tap - threshold, 0.0);
+                              }
+                              gl_FragColor = vec4(color.rgb + strength * glow / float(BLOOM_TAPS), color.a);
+                          }
+                      `,
+    chromaticAberration: glslify`
+                          ${FRAGMENT_PRECISION_GLSL}
+
+                          uniform sampler2D source;
+                          uniform vec2 sourceSize;
+                          uniform vec2 resolution;
+                          uniform vec2 fragCoordOffset;
+                          uniform float scale;
+                          uniform float offset;
+
+                          // clamped to the image so tiles and whole renders agree at the borders
+                          vec4 sampleImage (vec2 fragCoord) {
+                              vec2 clamped = clamp(fragCoord, vec2(0.5), resolution - 0.5);
+                              return texture2D(source, (clamped - fragCoordOffset) / sourceSize);
+                          }
+
+                          void main () {
+                              vec2 fragCoord = gl_FragCoord.xy + fragCoordOffset;
+                              // grows from nothing in the center to offset at the edges
+                              vec2 shift = (fragCoord / resolution * 2.0 - 1.0) * offset * scale;
+                              vec4 color = sampleImage(fragCoord);
+                              gl_FragColor = vec4(
+                                  sampleImage(fragCoord + shift).r,
+                                  color.g,
+                                  sampleImage(fragCoord - shift).b,
+                                  color.a
+                              );
+                          }
+                      `,
+    vignette: glslify`
+                          ${FRAGMENT_PRECISION_GLSL}
+
+                          ${PASS_DEFINES_GLSL}
+
+                          uniform sampler2D source;
+                          uniform vec2 sourceSize;
+                          uniform vec2 resolution;
+                          uniform vec2 fragCoordOffset;
+                          uniform float strength;
+                          uniform float radius;
+
+                          void main () {
+                              vec2 fragCoord = gl_FragCoord.xy + fragCoordOffset;
+                              vec4 color = texture2D(source, gl_FragCoord.xy / sourceSize);
+                              // 0 in the center and 1 in the corners
+                              float distance = length(fragCoord / resolution - 0.5) * sqrt(2.0);
+                              float shade = 1.0 - strength * smoothstep(radius, radius + VIGNETTE_SOFTNESS, distance);
+                              gl_FragColor = vec4(color.rgb * shade, color.a);
+                          }
+                      `,
+    paper: glslify`
+                          ${FRAGMENT_PRECISION_GLSL}
+
+                          #pragma glslify: noise = require('glsl-noise/simplex/2d');
+
+                          ${PASS_DEFINES_GLSL}
+
+                          uniform sampler2D source;
+                          uniform vec2 sourceSize;
+                          uniform vec2 fragCoordOffset;
+                          uniform float scale;
+                          uniform float strength;
+                          uniform float fibreSize;
+
+                          void main () {
+                              vec2 fragCoord = gl_FragCoord.xy + fragCoordOffset;
+                              vec4 color = texture2D(source, gl_FragCoord.xy / sourceSize);
+                              // fibres in scene pixels, woven along both axes
+                              vec2 p = fragCoord / (fibreSize * scale);
+                              float fibre = 0.5 * (
+                                  abs(noise(vec2(p.x, p.y * PAPER_FIBRE_STRETCH))) +
+                                  abs(noise(vec2(p.x * PAPER_FIBRE_STRETCH + 31.0, p.y)))
+                              );
+                              fibre = mix(PAPER_FIBRE_MEAN, fibre, clamp(fibreSize * scale, 0.0, 1.0));
+                              gl_FragColor = vec4(color.rgb * (1.0 - strength * fibre), color.a);
+                          }
+                      `,
+    filmGrain: glslify`
+                          ${FRAGMENT_PRECISION_GLSL}
+
+                          #pragma glslify: random = require(glsl-random);
+
+                          uniform sampler2D source;
+                          uniform vec2 sourceSize;
+                          uniform vec2 resolution;
+                          uniform vec2 fragCoordOffset;
+                          uniform float scale;
+                          uniform float strength;
+                          uniform float grainSize;
+
+                          void main () {
+                              vec2 fragCoord = gl_FragCoord.xy + fragCoordOffset;
+                              vec4 color = texture2D(source, gl_FragCoord.xy / sourceSize);
+                              // like the tint grain but offset so the two don't line up
+                              float cellSize = grainSize * scale;
+                              vec2 cell = (floor(fragCoord / cellSize) + 0.5) * cellSize;
+                              float grain = mix(0.5, random(cell / resolution + 1.0), clamp(cellSize, 0.0, 1.0));
+                              gl_FragColor = vec4(color.rgb + (grain - 0.5) * strength, color.a);
+                          }
+                      `,
+  };
+
+  // passes ping pong between the two framebuffers
+  const framebuffers = [
+    regl.framebuffer({ width: 1, height: 1, depth: true }),
+    regl.framebuffer({ width: 1, height: 1, depth: false }),
+  ];
+  const quad = regl.buffer(FULLSCREEN_QUAD);
+  const vert = glslify(`
+                        precision highp float;
+
+                        attribute vec2 position;
+
+                        void main () {
+                            gl_Position = vec4(position, 0, 1);
+                        }
+                    `);
+
+  const passes: { [name: string]: any } = {};
+  POST_PROCESSING_PASSES.forEach((name) => {
+    passes[name] = regl({
+      frag: shaders[name],
+      vert,
+      attributes: { position: quad },
+      uniforms: {
+        source: regl.prop('source'),
+        sourceSize: regl.prop('sourceSize'),
+        resolution: regl.prop('resolution'),
+        scale: regl.prop('scale'),
+        fragCoordOffset: regl.prop('fragCoordOffset'),
+        ...PASS_UNIFORMS[name].reduce(
+          (uniforms: { [name: string]: any }, uniform) => ({
+            ...uniforms,
+            [uniform]: regl.prop(uniform),
+          }),
+          {},
+        ),
+      },
+      depth: { enable: false },
+      count: 6,
+    });
+  });
+
+  const drawCopy = regl({
+    frag: glslify`
+                        ${FRAGMENT_PRECISION_GLSL}
+
+                        uniform sampler2D source;
+                        uniform vec2 sourceSize;
+                        uniform float margin;
+
+                        void main () {
+                            gl_FragColor = texture2D(source, (gl_FragCoord.xy + margin) / sourceSize);
+                        }
+                    `,
+    vert,
+    attributes: { position: quad },
+    uniforms: {
+      source: regl.prop('source'),
+      sourceSize: regl.prop('sourceSize'),
+      margin: regl.prop('margin'),
+    },
+    depth: { enable: false },
+    count: 6,
+  });
+
+  const draw = (
+    postProcessing: PostProcessing,
+    viewport: Viewport,
+    drawScene: (viewport: Viewport) => void,
+  ) => {
+    const margin = Math.ceil(
+      getPostProcessingMargin(postProcessing) * viewport.scale,
+    );
+    const [[left, top], [right, bottom]] = viewport.tile;
+    const padded: Viewport = {
+      ...viewport,
+      tile: [
+        [left - margin, top - margin],
+        [right + margin, bottom + margin],
+      ],
+    };
+    const sourceSize = [right - left + 2 * margin, bottom - top + 2 * margin];
+    framebuffers.forEach((framebuffer) => framebuffer.resize(...sourceSize));
+
+    framebuffers[0].use(() => {
+      regl.clear({ color: [1, 1, 1, 1], depth: 1 });
+      drawScene(padded);
+    });
+    let source = 0;
+    getPostProcessingPasses(postProcessing).forEach((name) => {
+      framebuffers[1 - source].use(() => {
+        passes[name]({
+          ...getViewportUniforms(padded),
+          ...getPassUniforms(name, postProcessing),
+          source: framebuffers[source],
+          sourceSize,
+        });
+      });
+      source = 1 - source;
+    });
+    drawCopy({ source: framebuffers[source], sourceSize, margin });
+  };
+
+  return { draw };
+};
@@ -0,0 +1,256 @@
+import { createRng } from '../utils/random';
+import { generateRandomHash } from '../utils/seed';
+import {
+  DEFAULT_ASPECT_RATIO,
+  fitGridPartitioning,
+  getDimensions,
+  parseAspectRatio,
+} from './aspect';
+import { extractFeatures, getTraitDistributions } from './features';
+import { partitionGrid } from './partitioning';
+
+export interface TraitValueStats {
+  count: number;
+  frequency: number; // observed share of the sample
+  expected: number; // share implied by the trait weights
+}
+
+export interface HistogramBin {
+  from: number; // inclusive
+  to: number; // exclusive
+  count: number;
+}
+
+export interface Histogram {
+  min: number;
+  max: number;
+  mean: number;
+  bins: HistogramBin[];
+}
+
+export interface RarityReport {
+  sampleSize: number;
+  sampleSeed: string;
+  aspectRatio: string; // edition the rects are laid out for
+  traits: { [traitName: string]: { [value: string]: TraitValueStats } };
+  rectCounts: Histogram; // rects per token
+  aspectRatios: Histogram; // long side over short side of every rect, in units
+  warnings: string[];
+}
+
+// a value seen in at least this share of the sample is flagged as near constant
+export const ALMOST_ALWAYS_FREQUENCY = 0.95;
+
+const RECT_COUNT_BIN_COUNT = 12;
+// lines are one unit thick, so aspect ratios are whole numbers of units
+const ASPECT_RATIO_BIN_EDGES = [1, 2, 3, 5, 8, 13, 21, 34, 55];
+
+// lists at most this many values per warning, palettes can have thousands
+const MAX_LISTED_VALUES = 8;
+
+// reduce instead of spreading, samples easily outgrow the call stack
+const min = (values: number[]) =>
+  values.reduce((a, b) => Math.min(a, b), Infinity);
+const max = (values: number[]) =>
+  values.reduce((a, b) => Math.max(a, b), -Infinity);
+
+const createHistogram = (values: number[], edges: number[]): Histogram => {
+  const bins = edges.map((from, i) => ({
+    from,
+    to: i + 1 < edges.length ? edges[i + 1] : Infinity,
+    count: 0,
+  }));
+  values.forEach((value) => {
+    const bin = bins.find((b) => value >= b.from && value < b.to);
+    if (bin) {
+      bin.count++;
+    }
+  });
+  return {
+    min: min(values),
+    max: max(values),
+    mean: values.reduce((total, v) => total + v, 0) / values.length,
+    bins,
+  };
+};
+
+const getLinearEdges = (values: number[], binCount: number) => {
+  const from = min(values);
+  const width = Math.max(1, Math.ceil((max(values) + 1 - from) / binCount));
+  return Array.from({ length: binCount }, (_, i) => from + i * width);
+};
+
+const listValues = (values: string[]) =>
+  values.length > MAX_LISTED_VALUES
+    ? `${values.slice(0, MAX_LISTED_VALUES).join(', ')} and ${
+        values.length - MAX_LISTED_VALUES
+      } more`
+    : values.join(', ');
+
+const getWarnings = (report: Pick<RarityReport, 'traits' | 'sampleSize'>) =>
+  Object.keys(report.traits).reduce((warnings: string[], traitName) => {
+    const stats = report.traits[traitName];
+    const values = Object.keys(stats);
+    const never = values.filter((value) => stats[value].count === 0);
+    const almostAlways = values.filter(
+      (value) => stats[value].frequency >= ALMOST_ALWAYS_FREQUENCY,
+    );
+    if (never.length) {
+      warnings.push(
+        `${traitName}: ${never.length} of ${
+          values.length
+        } values never occurred in ${report.sampleSize} tokens (${listValues(
+          never,
+        )})`,
+      );
+    }
+    almostAlways.forEach((value) => {
+      warnings.push(
+        `${traitName}: ${value} occurred in ${(
+          stats[value].frequency * 100
+        ).toFixed(1)}% of tokens`,
+      );
+    });
+    return warnings;
+  }, []);
+
+// samples tokens from a seeded stream of hashes so reports are reproducible,
+// rects are partitioned from the grid fitted to the edition like createScene
+export const collectRarityStats = (
+  sampleSize: number,
+  sampleSeed = 'rarity',
+  aspectRatio = DEFAULT_ASPECT_RATIO,
+): RarityReport => {
+  if (!(sampleSize >= 1)) {
+    throw new Error(`expected a sample of at least 1 token, got ${sampleSize}`);
+  }
+  const dimensions = getDimensions(parseAspectRatio(aspectRatio));
+  const sampleRand = createRng(sampleSeed).next;
+  const distributions = getTraitDistributions();
+  const traits: RarityReport['traits'] = {};
+  Object.keys(distributions).forEach((traitName) => {
+    traits[traitName] = {};
+    Object.keys(distributions[traitName]).forEach((value) => {
+      traits[traitName][value] = {
+        count: 0,
+        frequency: 0,
+        expected: distributions[traitName][value],
+      };
+    });
+  });
+
+  const rectCounts: number[] = [];
+  const aspectRatios: number[] = [];
+  for (let i = 0; i < sampleSize; i++) {
+    const { features, gene } = extractFeatures(generateRandomHash(sampleRand));
+    Object.keys(features).forEach((traitName) => {
+      const value = features[traitName];
+      // values missing from the distributions are counted with no expectation
+      traits[traitName] = traits[traitName] ?? {};
+      traits[traitName][value] = traits[traitName][value] ?? {
+        count: 0,
+        frequency: 0,
+        expected: 0,
+      };
+      traits[traitName][value].count++;
+    });
+
+    // the same stream as createScene, so these are the rendered lines
+    const lines = partitionGrid(
+      createRng(gene.seed).fork('partition').next,
+      fitGridPartitioning(gene.gridPartitioning, ...dimensions),
+    );
+    rectCounts.push(lines.length);
+    lines.forEach(([from, to]) => {
+      // line ends are inclusive, a line is one unit thick
+      const width = to[0] - from[0] + 1;
+      const height = to[1] - from[1] + 1;
+      aspectRatios.push(Math.max(width, height) / Math.min(width, height));
+    });
+  }
+
+  Object.keys(traits).forEach((traitName) => {
+    Object.keys(traits[traitName]).forEach((value) => {
+      const stats = traits[traitName][value];
+      stats.frequency = stats.count / sampleSize;
+    });
+  });
+
+  return {
+    sampleSize,
+    sampleSeed,
+    aspectRatio,
+    traits,
+    rectCounts: createHistogram(
+      rectCounts,
+      getLinearEdges(rectCounts, RECT_COUNT_BIN_COUNT),
+    ),
+    aspectRatios: createHistogram(aspectRatios, ASPECT_RATIO_BIN_EDGES),
+    warnings: getWarnings({ traits, sampleSize }),
+  };
+};
+
+const BAR_WIDTH = 40;
+
+const formatPercent = (ratio: number) =>
+  `${(ratio * 100).toFixed(1)}%`.padStart(6);
+
+const formatHistogram = (title: string, histogram: Histogram) => {
+  const maxCount = Math.max(1, ...histogram.bins.map((bin) => bin.count));
+  return [
+    `${title} (min ${histogram.min}, max ${
+      histogram.max
+    }, mean ${histogram.mean.toFixed(2)})`,
+    ...histogram.bins.map((bin) =>
+      [
+        `  ${`${bin.from}-${bin.to === Infinity ? '' : bin.to}`.padEnd(10)}`,
+        `${bin.count}`.padStart(8),
+        ` ${'#'.repeat(Math.round((bin.count / maxCount) * BAR_WIDTH))}`,
+      ].join(''),
+    ),
+  ];
+};
+
+// human readable report, traits with many values (palettes) are summarized
+export const formatRarityReport = (report: RarityReport): string => {
+  const lines = [
+    `rarity of ${report.sampleSize} tokens sampled with seed "${report.sampleSeed}", rects of the ${report.aspectRatio} edition`,
+    '',
+  ];
+
+  Object.keys(report.traits).forEach((traitName) => {
+    const stats = report.traits[traitName];
+    const values = Object.keys(stats).sort(
+      (a, b) => stats[b].count - stats[a].count,
+    );
+    lines.push(`${traitName} (${values.length} values)`);
+    const listed =
+      values.length > MAX_LISTED_VALUES * 2
+        ? [
+            ...values.slice(0, MAX_LISTED_VALUES),
+            ...values.slice(-MAX_LISTED_VALUES),
+          ]
+        : values;
+    listed.forEach((value, i) => {
+      if (listed.length < values.length && i === MAX_LISTED_VALUES) {
+        lines.push(`  ...`);
+      }
+      lines.push(
+        `  ${value.padEnd(16)}${`${stats[value].count}`.padStart(
+          8,
+        )}${formatPercent(stats[value].frequency)} observed${formatPercent(
+          stats[value].expected,
+        )} expected`,
+      );
+    });
+    lines.push('');
+  });
+
+  lines.push(...formatHistogram('Rects per token', report.rectCounts), '');
+  lines.push(...formatHistogram('Rect aspect ratios', report.aspectRatios), '');
+  lines.push(
+    report.warnings.length ? 'Warnings' : 'No warnings',
+    ...report.warnings.map((warning) => `  ${warning}`),
+  );
+  return lines.join('\n') + '\n';
+};
@@ -0,0 +1,315 @@
+import { Color } from '../types';
+import { convertHexToColor } from '../utils/color';
+import { glslRandom, glslSimplex2D } from '../utils/noise';
+import { createImage, RGBAImage } from '../utils/png';
+import { DEFAULT_GRAIN_SIZE } from './constants';
+import { MAX_COLOR_STOPS } from './gene';
+import { BACKGROUND_Z_INDEX } from './layers';
+import {
+  BLOOM_TAPS,
+  getPostProcessingPasses,
+  GOLDEN_ANGLE,
+  PAPER_FIBRE_MEAN,
+  PAPER_FIBRE_STRETCH,
+  PostProcessing,
+  PostProcessingPassName,
+  VIGNETTE_SOFTNESS,
+} from './post-processing';
+import { getLayeredSceneRects, Scene } from './scene';
+import { getRectCenter, getRectHalfSize, getShapeFill } from './shapes';
+import { getTintAmount } from './texture';
+
+export interface RasterizeOptions {
+  playhead?: number;
+  scale?: number; // output size relative to the scene size
+}
+
+const mixColor = (a: Color, b: Color, t: number): Color => [
+  a[0] * (1 - t) + b[0] * t,
+  a[1] * (1 - t) + b[1] * t,
+  a[2] * (1 - t) + b[2] * t,
+  a[3] * (1 - t) + b[3] * t,
+];
+
+const clamp = (x: number, min: number, max: number) =>
+  Math.min(Math.max(x, min), max);
+
+// mirrors the gradient function of the rect fragment shader
+const gradient = (colorStops: Color[], ratio: number): Color => {
+  const scaledRatio = ratio * (colorStops.length - 1);
+  let color = colorStops[0];
+  for (let i = 1; i < colorStops.length; i++) {
+    color = mixColor(color, colorStops[i], clamp(scaledRatio - (i - 1), 0, 1));
+  }
+  return color;
+};
+
+const tint = (
+  color: Color,
+  tintColor: Color,
+  pointilism: number,
+  fragCoord: number[],
+  resolution: number[],
+  cellSize: number,
+) =>
+  mixColor(
+    color,
+    tintColor,
+    getTintAmount(pointilism, fragCoord, resolution, cellSize),
+  );
+
+const smoothstep = (edge0: number, edge1: number, x: number) => {
+  const t = clamp((x - edge0) / (edge1 - edge0), 0, 1);
+  return t * t * (3 - 2 * t);
+};
+
+// reads the image at a gl_FragCoord, clamped to the image and nearest like the
+// framebuffer textures of the passes
+const sampleImage = (image: RGBAImage, fragCoord: number[]): Color => {
+  const x = clamp(Math.floor(fragCoord[0]), 0, image.width - 1);
+  const y =
+    image.height - 1 - clamp(Math.floor(fragCoord[1]), 0, image.height - 1);
+  const i = (y * image.width + x) * 4;
+  return [
+    image.data[i] / 255,
+    image.data[i + 1] / 255,
+    image.data[i + 2] / 255,
+    image.data[i + 3] / 255,
+  ];
+};
+
+type PostProcessingPass = (
+  source: RGBAImage,
+  fragCoord: number[],
+  scale: number,
+  postProcessing: PostProcessing,
+) => Color;
+
+// mirror the post processing shaders
+const POST_PROCESSING_PASSES: {
+  [name in PostProcessingPassName]: PostProcessingPass;
+} = {
+  bloom: (source, fragCoord, scale, { bloom }) => {
+    const { threshold, strength, spread } = bloom!;
+    const color = sampleImage(source, fragCoord);
+    const glow = [0, 0, 0];
+    for (let i = 0; i < BLOOM_TAPS; i++) {
+      const r = Math.sqrt((i + 0.5) / BLOOM_TAPS) * spread * scale;
+      const a = i * GOLDEN_ANGLE;
+      const tap = sampleImage(source, [
+        fragCoord[0] + r * Math.cos(a),
+        fragCoord[1] + r * Math.sin(a),
+      ]);
+      for (let c = 0; c < 3; c++) {
+        glow[c] += Math.max(tap[c] - threshold, 0);
+      }
+    }
+    return [
+      color[0] + (strength * glow[0]) / BLOOM_TAPS,
+      color[1] + (strength * glow[1]) / BLOOM_TAPS,
+      color[2] + (strength * glow[2]) / BLOOM_TAPS,
+      color[3],
+    ];
+  },
+  chromaticAberration: (source, fragCoord, scale, { chromaticAberration }) => {
+    const { offset } = chromaticAberration!;
+    const shift = [0, 1].map(
+      (axis) =>
+        ((fragCoord[axis] / [source.width, source.height][axis]) * 2 - 1) *
+        offset *
+        scale,
+    );
+    const color = sampleImage(source, fragCoord);
+    return [
+      sampleImage(source, [
+        fragCoord[0] + shift[0],
+        fragCoord[1] + shift[1],
+      ])[0],
+      color[1],
+      sampleImage(source, [
+        fragCoord[0] - shift[0],
+        fragCoord[1] - shift[1],
+      ])[2],
+      color[3],
+    ];
+  },
+  vignette: (source, fragCoord, scale, { vignette }) => {
+    const { strength, radius } = vignette!;
+    const color = sampleImage(source, fragCoord);
+    const distance =
+      Math.hypot(
+        fragCoord[0] / source.width - 0.5,
+        fragCoord[1] / source.height - 0.5,
+      ) * Math.SQRT2;
+    const shade =
+      1 - strength * smoothstep(radius, radius + VIGNETTE_SOFTNESS, distance);
+    return [color[0] * shade, color[1] * shade, color[2] * shade, color[3]];
+  },
+  paper: (source, fragCoord, scale, { paper }) => {
+    const { strength, fibreSize } = paper!;
+    const color = sampleImage(source, fragCoord);
+    const p = fragCoord.map((c) => c / (fibreSize * scale));
+    const fibre =
+      0.5 *
+      (Math.abs(glslSimplex2D(p[0], p[1] * PAPER_FIBRE_STRETCH)) +
+        Math.abs(glslSimplex2D(p[0] * PAPER_FIBRE_STRETCH + 31, p[1])));
+    const visibility = clamp(fibreSize * scale, 0, 1);
+    const shade =
+      1 - strength * (PAPER_FIBRE_MEAN * (1 - visibility) + fibre * visibility);
+    return [color[0] * shade, color[1] * shade, color[2] * shade, color[3]];
+  },
+  filmGrain: (source, fragCoord, scale, { filmGrain }) => {
+    const { strength, grainSize = DEFAULT_GRAIN_SIZE } = filmGrain!;
+    const color = sampleImage(source, fragCoord);
+    const cellSize = grainSize * scale;
+    const resolution = [source.width, source.height];
+    const cell = fragCoord.map(
+      (c, i) =>
+        ((Math.floor(c / cellSize) + 0.5) * cellSize) / resolution[i] + 1,
+    );
+    const visibility = clamp(cellSize, 0, 1);
+    const grain =
+      0.5 * (1 - visibility) + glslRandom(cell[0], cell[1]) * visibility;
+    const swing = (grain - 0.5) * strength;
+    return [color[0] + swing, color[1] + swing, color[2] + swing, color[3]];
+  },
+};
+
+// runs the passes of the gene over the image, each pass reads the output of
+// the previous one like the framebuffers of the gpu
+const postProcess = (
+  image: RGBAImage,
+  postProcessing: PostProcessing | undefined,
+  scale: number,
+) =>
+  getPostProcessingPasses(postProcessing).reduce((source, name) => {
+    const target = createImage(source.width, source.height);
+    for (let y = 0; y < source.height; y++) {
+      for (let x = 0; x < source.width; x++) {
+        const color = POST_PROCESSING_PASSES[name](
+          source,
+          [x + 0.5, source.height - y - 0.5],
+          scale,
+          postProcessing!,
+        );
+        target.data.set(
+          color.map((c) => Math.round(clamp(c, 0, 1) * 255)),
+          (y * source.width + x) * 4,
+        );
+      }
+    }
+    return target;
+  }, image);
+
+// cpu rasterizer reproducing the regl pipeline without a browser or gpu,
+// pixels are sampled at their centers like the gpu does
+export const rasterizeScene = (
+  scene: Scene,
+  options: RasterizeOptions = {},
+): RGBAImage => {
+  const { playhead = 0, scale = 1 } = options;
+  const width = Math.round(scene.width * scale);
+  const height = Math.round(scene.height * scale);
+  const image = createImage(width, height);
+  // zIndex of the painted pixel, mirrors the depth buffer
+  const depth = new Float32Array(width * height).fill(-Infinity);
+
+  const setPixel = (x: number, y: number, color: Color, zIndex: number) => {
+    const i = (y * width + x) * 4;
+    image.data[i] = Math.round(color[0] * 255);
+    image.data[i + 1] = Math.round(color[1] * 255);
+    image.data[i + 2] = Math.round(color[2] * 255);
+    image.data[i + 3] = Math.round(color[3] * 255);
+    depth[y * width + x] = zIndex;
+  };
+
+  const resolution = [width, height];
+  // gl_FragCoord has its origin in the bottom left
+  const getFragCoord = (x: number, y: number) => [x + 0.5, height - y - 0.5];
+
+  // rects are depth tested by zIndex, so the first rect drawn wins a tie
+  const { rects, rectProps } = getLayeredSceneRects(scene, playhead);
+  rects.forEach((rect, i) => {
+    const props = rectProps[i];
+    const zIndex = props.zIndex ?? 0;
+    const colorStops = props.colors
+      .slice(0, MAX_COLOR_STOPS)
+      .map(convertHexToColor);
+    const tintColor = convertHexToColor(props.tintColor);
+    const accentColor = convertHexToColor(props.accentColor ?? props.tintColor);
+    const pointilism = props.pointilism ?? scene.foreground.pointilism;
+    const [[left, top], [right, bottom]] = rect;
+    const center = getRectCenter(rect);
+    const halfSize = getRectHalfSize(rect);
+
+    const fromX = Math.max(Math.ceil(left * scale - 0.5), 0);
+    const toX = Math.min(Math.ceil(right * scale - 0.5), width);
+    const fromY = Math.max(Math.ceil(top * scale - 0.5), 0);
+    const toY = Math.min(Math.ceil(bottom * scale - 0.5), height);
+    for (let y = fromY; y < toY; y++) {
+      for (let x = fromX; x < toX; x++) {
+        if (zIndex <= depth[y * width + x]) {
+          continue;
+        }
+        const position = [(x + 0.5) / scale, (y + 0.5) / scale];
+        const fill = getShapeFill(
+          [position[0] - center[0], position[1] - center[1]],
+          halfSize,
+          props,
+        );
+        if (fill === 'outside') {
+          continue;
+        }
+        const ratio = props.isGradientVert
+          ? (position[1] - top) / (bottom - top)
+          : (position[0] - left) / (right - left);
+        const color =
+          fill === 'accent' ? accentColor : gradient(colorStops, ratio);
+        setPixel(
+          x,
+          y,
+          tint(
+            color,
+            tintColor,
+            pointilism,
+            getFragCoord(x, y),
+            resolution,
+            scene.foreground.grainSize * scale,
+          ),
+          zIndex,
+        );
+      }
+    }
+  });
+
+  const { background } = scene;
+  const fromColor = convertHexToColor(background.colors[0]);
+  const toColor = convertHexToColor(background.colors[1]);
+  const backgroundTint = convertHexToColor(background.tintColor);
+  const backgroundCellSize =
+    (background.grainSize ?? DEFAULT_GRAIN_SIZE) * scale;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (BACKGROUND_Z_INDEX <= depth[y * width + x]) {
+        continue;
+      }
+      const fragCoord = getFragCoord(x, y);
+      const color = mixColor(toColor, fromColor, fragCoord[0] / width);
+      setPixel(
+        x,
+        y,
+        tint(
+          color,
+          backgroundTint,
+          background.pointilism,
+          fragCoord,
+          resolution,
+          backgroundCellSize,
+        ),
+        BACKGROUND_Z_INDEX,
+      );
+    }
+  }
+
+  return postProcess(image, scene.postProcessing, scale);
+};
@@ -0,0 +1,417 @@
+import * as glslify from 'glslify';
+
+import { convertHexToColor } from '../utils/color';
+import { toGlslFloat } from '../utils/glsl';
+import { rectToTriangles } from '../utils/primitives';
+import { DEFAULT_GRAIN_SIZE } from './constants';
+import { MAX_COLOR_STOPS } from './gene';
+import {
+  createPostProcessor,
+  getPostProcessingPasses,
+} from './post-processing';
+import { BACKGROUND_Z_INDEX, MAX_Z_INDEX } from './layers';
+import { getLayeredSceneRects, Scene } from './scene';
+import { CIRCLE_DIAMETER_RATIO, MOTIFS } from './shapes';
+import { getViewportUniforms, Viewport } from './viewport';
+
+export interface Renderer {
+  setScene: (scene: Scene) => void; // uploads the per rect data of a scene
+  draw: (playhead: number, viewport: Viewport) => void;
+}
+
+// the regl renderer needs webgl with instanced arrays, browsers and wallet
+// previews without them get the canvas 2d renderer, see canvas-renderer.ts
+export const isWebGLSupported = () => {
+  try {
+    const gl = document.createElement('canvas').getContext('webgl');
+    return !!gl?.getExtension('ANGLE_instanced_arrays');
+  } catch (e) {
+    return false;
+  }
+};
+
+// grain cells are grainSize scene pixels whatever the output size, once a cell
+// is smaller than a pixel the grain fades to its mean value, interpolated into
+// the shaders declaring the resolution, scale and grainSize uniforms and
+// glsl-random as `random`
+const GRAIN_GLSL = `
+float grain (vec2 fragCoord) {
+    float cellSize = grainSize * scale;
+    vec2 cell = (floor(fragCoord / cellSize) + 0.5) * cellSize;
+    return mix(0.5, random(cell / resolution), clamp(cellSize, 0.0, 1.0));
+}
+`;
+
+// rects per row of the color stop texture, keeps the texture roughly square
+const RECTS_PER_TEXTURE_ROW = 32;
+
+// constants the rect shaders share with the typescript code, interpolated as
+// defines so the two never disagree
+const RECT_DEFINES_GLSL = `
+#define MAX_COLOR_STOPS ${MAX_COLOR_STOPS}
+#define CIRCLE_DIAMETER_RATIO ${toGlslFloat(CIRCLE_DIAMETER_RATIO)}
+#define RECTS_PER_TEXTURE_ROW ${toGlslFloat(RECTS_PER_TEXTURE_ROW)}
+#define MAX_Z_INDEX ${toGlslFloat(MAX_Z_INDEX)}
+`;
+
+// one quad per instance, in the corner order of rectToTriangles
+const QUAD_CORNERS = [0, 0, 1, 0, 0, 1, 1, 0, 0, 1, 1, 1];
+
+const colorToBytes = (hex: string) =>
+  convertHexToColor(hex).map((c) => Math.round(c * 255));
+
+// regl commands compiled once per sketch, rects are drawn in a single
+// instanced call (ANGLE_instanced_arrays) from instance buffers updated in
+// place every frame
+export const createRenderer = (regl: any): Renderer => {
+  const cornerBuffer = regl.buffer(QUAD_CORNERS);
+  const boundsBuffer = regl.buffer({ usage: 'dynamic', type: 'float' });
+  const tintBuffer = regl.buffer({ type: 'float' });
+  const accentBuffer = regl.buffer({ type: 'float' });
+  const shapeBuffer = regl.buffer({ type: 'float' });
+  const styleBuffer = regl.buffer({ type: 'float' });
+  const indexBuffer = regl.buffer({ type: 'float' });
+  // webgl 1 only guarantees 8 attributes and varyings, too few for every color
+  // stop, so stops are read from a texture with a texel per stop
+  const colorStopsTexture = regl.texture({ width: 1, height: 1 });
+  const postProcessor = createPostProcessor(regl);
+
+  let scene: Scene | undefined;
+  let bounds = new Float32Array(0);
+
+  const drawRects = regl({
+    frag: glslify`
+                        precision mediump float;
+
+                        #pragma glslify: noise = require('glsl-noise/simplex/2d');
+                        #pragma glslify: random = require(glsl-random);
+
+                        ${RECT_DEFINES_GLSL}
+
+                        // uniforms
+                        uniform sampler2D colorStops;
+                        uniform vec2 colorStopsSize;
+                        uniform vec2 resolution;
+                        uniform vec2 fragCoordOffset;
+                        uniform float scale;
+                        uniform float grainSize;
+
+                        // varyings
+                        varying vec4 tintColor;
+                        varying float gradientMixRatio;
+                        varying float pointilism;
+                        varying float colorStopCount;
+                        varying vec2 colorStopsOrigin;
+                        varying vec4 accentColor;
+                        varying vec3 shape;
+                        varying vec2 localPosition;
+                        varying vec2 halfSize;
+
+                        ${GRAIN_GLSL}
+
+                        // signed distance to a rounded rect centered on the origin, negative inside
+                        float roundedRectDistance (vec2 position, vec2 halfSize, float radius) {
+                            vec2 q = abs(position) - halfSize + radius;
+                            return length(max(q, 0.0)) + min(max(q.x, q.y), 0.0) - radius;
+                        }
+
+                        // 0 outside the rect, 1 for the fill and 2 for the accent, the motif ids
+                        // follow the order of MOTIFS in shapes.ts
+                        float shapeFill () {
+                            float shortSide = 2.0 * min(halfSize.x, halfSize.y);
+                            float radius = shape.x * shortSide;
+                            float distance = roundedRectDistance(localPosition, halfSize, radius);
+                            // square edges are clipped by the rasterization already, so rounding
+                            // error along them never drops or strokes a pixel
+                            if (radius > 0.0 && distance > 0.0) {
+                                return 0.0;
+                            }
+                            if (shape.y > 0.0 && distance > -shape.y) {
+                                return 2.0;
+                            }
+                            // motifs run along the long side of the rect
+                            float along = halfSize.x > halfSize.y ? localPosition.x : localPosition.y;
+                            if (shape.z > 0.5 && shape.z < 1.5) {
+                                return length(localPosition) < CIRCLE_DIAMETER_RATIO * shortSide / 2.0 ? 2.0 : 1.0;
+                            }
+                            if (shape.z > 1.5 && shape.z < 2.5) {
+                                return fract(along / shortSide) < 0.5 ? 2.0 : 1.0;
+                            }
+                            if (shape.z > 2.5) {
+                                return along < 0.0 ? 2.0 : 1.0;
+                            }
+                            return 1.0;
+                        }
+
+                        vec4 colorStop (int i) {
+                            return texture2D(colorStops, colorStopsOrigin + vec2(float(i) / colorStopsSize.x, 0.0));
+                        }
+
+                        // evenly spaced stops, each stop blends into the next
+                        vec4 gradient (float ratio) {
+                            float scaledRatio = ratio * (colorStopCount - 1.0);
+                            vec4 color = colorStop(0);
+                            for (int i = 1; i < MAX_COLOR_STOPS; i++) {
+                                if (float(i) >= colorStopCount) {
+                                    break;
+                                }
+                                color = mix(color, colorStop(i), clamp(scaledRatio - float(i - 1), 0.0, 1.0));
+                            }
+                            return color;
+                        }
+
+                        void main () {
+                            float fill = shapeFill();
+                            if (fill < 0.5) {
+                                discard;
+                            }
+                            vec2 fragCoord = gl_FragCoord.xy + fragCoordOffset;
+                            vec2 cord = fragCoord / resolution;
+                            vec4 color = fill > 1.5 ? accentColor : gradient(gradientMixRatio);
+                            float smooth_coeff = abs(noise(cord.xy * pointilism));
+                            float noise_coeff = grain(fragCoord);
+                            float coeff = smooth_coeff * noise_coeff;
+                            gl_FragColor = mix(color, tintColor, coeff);
+                        }
+                    `,
+    vert: glslify`
+                        precision mediump float;
+
+                        ${RECT_DEFINES_GLSL}
+
+                        // uniforms
+                        uniform float scale;
+                        uniform vec2 tileOrigin;
+                        uniform vec2 tileSize;
+                        uniform vec2 colorStopsSize;
+
+                        // attributes
+                        attribute vec2 corner;
+                        attribute vec4 bounds; // top left and bottom right in scene pixels
+                        attribute vec4 tint;
+                        attribute vec4 style; // is vertical, pointilism, color stop count, z index
+                        attribute vec4 accent;
+                        attribute vec3 shapeStyle; // corner radius, stroke width, motif id
+                        attribute float index;
+
+                        // varyings
+                        varying vec4 tintColor;
+                        varying float gradientMixRatio;
+                        varying float pointilism;
+                        varying float colorStopCount;
+                        varying vec2 colorStopsOrigin;
+                        varying vec4 accentColor;
+                        varying vec3 shape;
+                        varying vec2 localPosition;
+                        varying vec2 halfSize;
+
+                        void main () {
+                            vec2 position = mix(bounds.xy, bounds.zw, corner);
+                            halfSize = (bounds.zw - bounds.xy) / 2.0;
+                            localPosition = position - (bounds.xy + halfSize);
+                            accentColor = accent;
+                            shape = shapeStyle;
+                            gradientMixRatio = style.x > 0.5 ? corner.y : corner.x;
+                            pointilism = style.y;
+                            colorStopCount = style.z;
+                            tintColor = tint;
+                            vec2 texel = vec2(mod(index, RECTS_PER_TEXTURE_ROW) * float(MAX_COLOR_STOPS), floor(index / RECTS_PER_TEXTURE_ROW));
+                            colorStopsOrigin = (texel + 0.5) / colorStopsSize;
+
+                            vec2 normalizedCords = vec2(2, 2) * ((position * scale - tileOrigin) / tileSize);
+                            normalizedCords *= vec2(1, -1);
+                            normalizedCords += vec2(-1, 1);
+                            // higher z indices are nearer, depth is tested with less
+                            float depth = -clamp(style.w, 1.0 - MAX_Z_INDEX, MAX_Z_INDEX - 1.0) / MAX_Z_INDEX;
+                            gl_Position = vec4(normalizedCords, depth, 1);
+                        }
+                    `,
+    primitive: 'triangles',
+    attributes: {
+      corner: cornerBuffer,
+      bounds: { buffer: boundsBuffer, divisor: 1 },
+      tint: { buffer: tintBuffer, divisor: 1 },
+      accent: { buffer: accentBuffer, divisor: 1 },
+      shapeStyle: { buffer: shapeBuffer, divisor: 1 },
+      style: { buffer: styleBuffer, divisor: 1 },
+      index: { buffer: indexBuffer, divisor: 1 },
+    },
+    uniforms: {
+      resolution: regl.prop('resolution'),
+      scale: regl.prop('scale'),
+      tileOrigin: regl.prop('tileOrigin'),
+      tileSize: regl.prop('tileSize'),
+      fragCoordOffset: regl.prop('fragCoordOffset'),
+      grainSize: regl.prop('grainSize'),
+      colorStops: colorStopsTexture,
+      colorStopsSize: () => [colorStopsTexture.width, colorStopsTexture.height],
+    },
+    count: 6,
+    instances: regl.prop('instances'),
+  });
+
+  const drawBackground = regl({
+    frag: glslify`
+                        precision mediump float;
+
+                        #pragma glslify: noise = require('glsl-noise/simplex/2d');
+                        #pragma glslify: random = require(glsl-random);
+
+                        uniform vec4 backgroundColor;
+                        uniform vec4 tintColor;
+                        uniform vec4 fromColor;
+                        uniform vec4 toColor;
+                        uniform float pointilism;
+                        uniform vec2 resolution;
+                        uniform vec2 fragCoordOffset;
+                        uniform float scale;
+                        uniform float grainSize;
+
+                        ${GRAIN_GLSL}
+
+                        void main () {
+                            vec2 fragCoord = gl_FragCoord.xy + fragCoordOffset;
+                            vec2 cord = fragCoord / resolution;
+                            vec4 color = mix(toColor, fromColor, cord.x);
+                            float smooth_coeff = abs(noise(cord.xy * pointilism));
+                            float noise_coeff = grain(fragCoord);
+                            float coeff = smooth_coeff * noise_coeff;
+                            gl_FragColor = mix(color, tintColor, coeff);
+                        }
+                    `,
+    vert: glslify(`
+                        precision mediump float;
+
+                        // uniforms
+                        uniform float scale;
+                        uniform vec2 tileOrigin;
+                        uniform vec2 tileSize;
+                        uniform float depth;
+
+                        // attributes
+                        attribute vec2 position;
+
+                        void main () {
+                            vec2 normalizedCords = vec2(2, 2) * ((position * scale - tileOrigin) / tileSize);
+                            normalizedCords *= vec2(1, -1);
+                            normalizedCords += vec2(-1, 1);
+                            gl_Position = vec4(normalizedCords, depth, 1);
+                        }
+                    `),
+    primitive: 'triangles',
+    attributes: {
+      position: regl.prop('position'),
+    },
+    uniforms: {
+      resolution: regl.prop('resolution'),
+      scale: regl.prop('scale'),
+      tileOrigin: regl.prop('tileOrigin'),
+      tileSize: regl.prop('tileSize'),
+      fragCoordOffset: regl.prop('fragCoordOffset'),
+      grainSize: regl.prop('grainSize'),
+      depth: -BACKGROUND_Z_INDEX / MAX_Z_INDEX,
+      pointilism: regl.prop('pointilism'),
+      toColor: regl.prop('toColor'),
+      fromColor: regl.prop('fromColor'),
+      tintColor: regl.prop('tintColor'),
+    },
+    count: 6,
+  });
+
+  const setScene = (nextScene: Scene) => {
+    scene = nextScene;
+    // the layers keep their props between frames, only their rects move
+    const { rectProps } = getLayeredSceneRects(scene);
+    const count = rectProps.length;
+    bounds = new Float32Array(count * 4);
+    boundsBuffer({ usage: 'dynamic', type: 'float', data: bounds });
+    tintBuffer(rectProps.map((p) => convertHexToColor(p.tintColor)));
+    accentBuffer(
+      rectProps.map((p) => convertHexToColor(p.accentColor ?? p.tintColor)),
+    );
+    shapeBuffer(
+      rectProps.map((p) => [
+        p.cornerRadius ?? 0,
+        p.strokeWidth ?? 0,
+        MOTIFS.indexOf(p.motif ?? 'none'),
+      ]),
+    );
+    styleBuffer(
+      rectProps.map((p) => [
+        p.isGradientVert ? 1 : 0,
+        p.pointilism ?? nextScene.foreground.pointilism,
+        Math.min(p.colors.length, MAX_COLOR_STOPS),
+        p.zIndex ?? 0,
+      ]),
+    );
+    indexBuffer(rectProps.map((_, i) => i));
+
+    // unused stops repeat the last one, like the per rect uniforms used to
+    const width = RECTS_PER_TEXTURE_ROW * MAX_COLOR_STOPS;
+    const height = Math.max(1, Math.ceil(count / RECTS_PER_TEXTURE_ROW));
+    const data = new Uint8Array(width * height * 4);
+    rectProps.forEach((p, i) => {
+      const colors = p.colors.slice(0, MAX_COLOR_STOPS);
+      const offset = i * MAX_COLOR_STOPS * 4;
+      for (let stop = 0; stop < MAX_COLOR_STOPS; stop++) {
+        data.set(
+          colorToBytes(colors[Math.min(stop, colors.length - 1)]),
+          offset + stop * 4,
+        );
+      }
+    });
+    colorStopsTexture({ width, height, data, min: 'nearest', mag: 'nearest' });
+  };
+
+  // overlapping rects are depth tested by zIndex, the first drawn wins a tie
+  const drawScene = (scene: Scene, playhead: number, viewport: Viewport) => {
+    const viewportUniforms = getViewportUniforms(viewport);
+
+    const { rects } = getLayeredSceneRects(scene, playhead);
+    rects.forEach((rect, i) => {
+      bounds[i * 4] = rect[0][0];
+      bounds[i * 4 + 1] = rect[0][1];
+      bounds[i * 4 + 2] = rect[1][0];
+      bounds[i * 4 + 3] = rect[1][1];
+    });
+    boundsBuffer.subdata(bounds);
+    drawRects({
+      ...viewportUniforms,
+      grainSize: scene.foreground.grainSize,
+      instances: rects.length,
+    });
+
+    const { background } = scene;
+    const triangles = rectToTriangles([
+      [0, 0],
+      [scene.width, scene.height],
+    ]);
+    drawBackground({
+      ...viewportUniforms,
+      grainSize: background.grainSize ?? DEFAULT_GRAIN_SIZE,
+      pointilism: background.pointilism,
+      fromColor: convertHexToColor(background.colors[0]),
+      toColor: convertHexToColor(background.colors[1]),
+      tintColor: convertHexToColor(background.tintColor),
+      position: [...triangles[0], ...triangles[1]],
+    });
+  };
+
+  // the scene is drawn straight into the bound framebuffer unless the gene
+  // has post processing passes
+  const draw = (playhead: number, viewport: Viewport) => {
+    if (!scene) {
+      return;
+    }
+    const currentScene = scene;
+    if (!getPostProcessingPasses(currentScene.postProcessing).length) {
+      drawScene(currentScene, playhead, viewport);
+      return;
+    }
+    postProcessor.draw(currentScene.postProcessing!, viewport, (padded) =>
+      drawScene(currentScene, playhead, padded),
+    );
+  };
+
+  return { setScene, draw };
+};
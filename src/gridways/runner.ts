@@ -1,16 +1,154 @@
 import * as canvasSketch from 'canvas-sketch';
-import { DIMENSIONS, sketch } from './sketch';
+import { getTokenSeed } from '../utils/seed';
+import { createStore } from '../utils/store';
+import {
+  DEFAULT_ASPECT_RATIO,
+  fitGene,
+  getDimensions,
+  parseAspectRatio,
+} from './aspect';
+import {
+  ANIMATE_QUERY_PARAM,
+  ASPECT_QUERY_PARAM,
+  CANVAS_2D_QUERY_PARAM,
+  FIT_ASPECT_RATIO,
+  FPS,
+  GALLERY_QUERY_PARAM,
+  PANEL_QUERY_PARAM,
+  PRINT_QUERY_PARAM,
+} from './constants';
+import { extractFeatures } from './features';
+import { getGalleryHashes } from './gallery';
+import { createGalleryPage } from './gallery-page';
+import { getLoopDurationInTicks } from './gene';
+import { createPanel } from './panel';
+import { isWebGLSupported } from './renderer';
+import {
+  downloadGene,
+  getGeneFromUrl,
+  getGeneUrl,
+  readGeneFile,
+  reportGeneError,
+} from './serialization';
+import { sketch } from './sketch';
+import { parsePrintOptions } from './tiles';
+
+// dropping a gene file reloads the sketch with it in the url so it can be shared
+const listenForGeneFiles = () => {
+  window.addEventListener('dragover', (e) => e.preventDefault());
+  window.addEventListener('drop', async (e) => {
+    e.preventDefault();
+    const file = e.dataTransfer?.files[0];
+    if (!file) {
+      return;
+    }
+    try {
+      window.location.href = getGeneUrl(await readGeneFile(file));
+    } catch (error) {
+      reportGeneError(error, `${file.name} was not loaded`);
+    }
+  });
+};
+
+// an unparsable `?aspect=` renders the default edition rather than nothing
+const getAspectRatio = (aspect: string) => {
+  try {
+    return parseAspectRatio(aspect);
+  } catch (e) {
+    console.warn(
+      `${e.message}, rendering the ${DEFAULT_ASPECT_RATIO} edition instead`,
+    );
+    return parseAspectRatio(DEFAULT_ASPECT_RATIO);
+  }
+};
+
+// an invalid `?print=` renders on screen rather than nothing
+const getPrintOptions = (print: string | null) => {
+  if (!print) {
+    return undefined;
+  }
+  try {
+    return parsePrintOptions(print);
+  } catch (e) {
+    console.warn(`${e.message}, rendering on screen instead`);
+    return undefined;
+  }
+};
+
+const DEFAULT_GALLERY_COUNT = 16;
+
+// `?gallery=16` shows random tokens and `?gallery=0x..,0x..` a list of hashes,
+// a list with invalid hashes is reported and random tokens shown instead
+const getGalleryPageHashes = (gallery: string) => {
+  try {
+    return getGalleryHashes(
+      /^\d+$/.test(gallery)
+        ? Number(gallery)
+        : gallery || DEFAULT_GALLERY_COUNT,
+    );
+  } catch (e) {
+    const message = `${e.message}\n\nshowing ${DEFAULT_GALLERY_COUNT} random tokens instead`;
+    console.warn(message);
+    window.alert(message);
+    return getGalleryHashes(DEFAULT_GALLERY_COUNT);
+  }
+};
 
 (async () => {
+  const params = new URLSearchParams(window.location.search);
+  const gallery = params.get(GALLERY_QUERY_PARAM);
+  if (gallery !== null) {
+    createGalleryPage(getGalleryPageHashes(gallery));
+    return;
+  }
+
+  const token = getTokenSeed();
+  const geneOverride = getGeneFromUrl();
+  const gene = geneOverride ?? extractFeatures(token.hash).gene;
+  const geneStore = createStore(gene);
+  const animate = params.has(ANIMATE_QUERY_PARAM);
+  const aspect = params.get(ASPECT_QUERY_PARAM) ?? DEFAULT_ASPECT_RATIO;
+  const fit = aspect === FIT_ASPECT_RATIO;
+  const dimensions = getDimensions(
+    fit ? window.innerWidth / window.innerHeight : getAspectRatio(aspect),
+  );
   const sketchSettings = {
     prefix: '',
     name: '',
-    dimensions: DIMENSIONS,
-    animate: false,
-    context: 'webgl',
+    // without dimensions the canvas fills the window
+    ...(fit ? {} : { dimensions }),
+    animate,
+    // a fixed frame count keeps exported loops seamless
+    ...(animate
+      ? {
+          fps: FPS,
+          totalFrames: getLoopDurationInTicks(fitGene(gene, ...dimensions)),
+        }
+      : {}),
+    context:
+      isWebGLSupported() && !params.has(CANVAS_2D_QUERY_PARAM) ? 'webgl' : '2d',
     attributes: {
       antialias: true,
     },
   };
-  canvasSketch(await sketch(), sketchSettings);
+
+  listenForGeneFiles();
+  // `g` saves the gene being rendered as json
+  window.addEventListener('keydown', (e) => {
+    if (e.key === 'g' && !e.metaKey && !e.ctrlKey) {
+      downloadGene(geneStore.get());
+    }
+  });
+  if (params.has(PANEL_QUERY_PARAM)) {
+    createPanel(geneStore, dimensions);
+  }
+
+  canvasSketch(
+    await sketch(token, {
+      geneOverride,
+      geneStore,
+      print: getPrintOptions(params.get(PRINT_QUERY_PARAM)),
+    }),
+    sketchSettings,
+  );
 })();
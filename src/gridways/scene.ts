@@ -0,0 +1,135 @@
+import * as SimplexNoise from 'simplex-noise';
+
+import { Animation, Line, Rect } from '../types';
+import { createRng } from '../utils/random';
+import { getAnimatedLinesWithAnimations, getTotalTicks } from './animation';
+import { fitGene } from './aspect';
+import { DEFAULT_GRAIN_SIZE, DIMENSIONS } from './constants';
+import { Gene } from './gene';
+import {
+  createSceneLayers,
+  LayeredRects,
+  layerRects,
+  SceneLayers,
+} from './layers';
+import {
+  convertGridLinesToRects,
+  createTimelineAnimation,
+  generateLineProps,
+  generateRectProps,
+  LineProps,
+  RectProps,
+} from './layout';
+import { partitionGrid } from './partitioning';
+import { generateRectShapes } from './shapes';
+import { assertValidGene } from './validation';
+
+// serializable description of everything the renderers need to paint a piece,
+// all randomness is resolved when the scene is created
+export interface Scene {
+  width: number;
+  height: number;
+  background: Gene['background'];
+  foreground: {
+    pointilism: number;
+    grainSize: number;
+  };
+  gridPartitioning: Gene['gridPartitioning'];
+  lines: Line[]; // in grid units
+  lineProps: LineProps[];
+  rectProps: RectProps[];
+  layers: SceneLayers;
+  postProcessing: Gene['postProcessing'];
+  timelineAnimation: Animation;
+}
+
+// lays out a gene that is already valid and normalized, e.g. one from
+// extractFeatures, its grid is fitted to the canvas, see aspect.ts. The token
+// bundle renders with it and leaves validation.ts out
+export const layoutScene = (
+  validGene: Gene,
+  width: number,
+  height: number,
+): Scene => {
+  const gene = fitGene(validGene, width, height);
+  const { gridPartitioning, gridLinesToRects } = gene;
+  const rng = createRng(gene.seed);
+  const simplex = new SimplexNoise(rng.fork('noise').next);
+
+  // every step draws from a stream of its own, so new draws in one step never
+  // shift the outcome of the others
+  const lines = partitionGrid(rng.fork('partition').next, gridPartitioning);
+  const lineProps = generateLineProps(
+    rng.fork('jitter').next,
+    lines,
+    gridLinesToRects,
+  );
+  const rectProps = generateRectShapes(
+    rng.fork('shapes').next,
+    generateRectProps(rng.fork('colors'), simplex, lines, gene),
+    gene,
+  );
+
+  return {
+    width,
+    height,
+    background: gene.background,
+    foreground: {
+      pointilism: gene.foreground.pointilism,
+      grainSize: gene.foreground.grainSize ?? DEFAULT_GRAIN_SIZE,
+    },
+    gridPartitioning,
+    lines,
+    lineProps,
+    rectProps,
+    layers: createSceneLayers(gene, rectProps),
+    postProcessing: gene.postProcessing,
+    timelineAnimation: createTimelineAnimation(gene, rectProps),
+  };
+};
+
+// genes are validated on the square DIMENSIONS they are authored for, throws a
+// GeneValidationError when the gene can't be rendered
+export const createScene = (
+  unvalidatedGene: Gene,
+  width: number,
+  height: number,
+): Scene =>
+  layoutScene(assertValidGene(unvalidatedGene, DIMENSIONS), width, height);
+
+// rects in pixels at the given playhead, playhead loops over [0, 1] and is
+// mapped onto the full timeline so the first and last frame are identical
+export const getSceneRects = (scene: Scene, playhead = 0): Rect[] => {
+  const { timelineAnimation } = scene;
+  const lines = getAnimatedLinesWithAnimations(
+    scene.lines,
+    playhead * getTotalTicks(timelineAnimation),
+    timelineAnimation,
+  );
+  return convertGridLinesToRects(
+    lines,
+    scene.lineProps,
+    scene.gridPartitioning,
+    scene.width,
+    scene.height,
+  );
+};
+
+// rects of every layer at the given playhead, see layers.ts
+export const getLayeredSceneRects = (
+  scene: Scene,
+  playhead = 0,
+): LayeredRects =>
+  layerRects(
+    scene.layers,
+    getSceneRects(scene, playhead),
+    scene.rectProps,
+    () =>
+      convertGridLinesToRects(
+        scene.lines,
+        scene.lineProps,
+        scene.gridPartitioning,
+        scene.width,
+        scene.height,
+      ),
+  );
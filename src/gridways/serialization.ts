@@ -0,0 +1,101 @@
+import { downloadBlob } from '../utils/download';
+import { DIMENSIONS, GENE_QUERY_PARAM } from './constants';
+import { Gene } from './gene';
+import { GeneValidationError, validateGene } from './validation';
+
+export const GENE_FILE_EXTENSION = '.gene.json';
+
+// base64url keeps the encoded gene free of characters that need escaping in urls
+const toBase64Url = (str: string) =>
+  btoa(
+    Array.from(new TextEncoder().encode(str), (byte) =>
+      String.fromCharCode(byte),
+    ).join(''),
+  )
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const fromBase64Url = (encoded: string) => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(
+    Uint8Array.from(binary, (char) => char.charCodeAt(0)),
+  );
+};
+
+export const serializeGene = (gene: Gene) => JSON.stringify(gene, null, 2);
+
+// parses a gene and runs every check createScene runs, so an invalid gene is
+// rejected where it is loaded rather than once it renders
+export const parseGene = (json: string): Gene => {
+  let gene: any;
+  try {
+    gene = JSON.parse(json);
+  } catch (e) {
+    throw new Error(`gene is not valid json: ${e.message}`);
+  }
+  const issues = validateGene(gene, DIMENSIONS);
+  if (issues.length) {
+    throw new GeneValidationError(issues);
+  }
+  return gene;
+};
+
+// compact form of the gene for the `?gene=` query param
+export const encodeGene = (gene: Gene) => toBase64Url(JSON.stringify(gene));
+
+export const decodeGene = (encoded: string): Gene => {
+  let json: string;
+  try {
+    json = fromBase64Url(encoded);
+  } catch (e) {
+    throw new Error(`gene is not valid base64url: ${encoded}`);
+  }
+  return parseGene(json);
+};
+
+// tells the user in the page why a gene they provided was not loaded
+export const reportGeneError = (error: Error, consequence: string) => {
+  const message = `${error.message}\n\n${consequence}`;
+  console.warn(message);
+  window.alert(message);
+};
+
+// the gene of the `?gene=` query param, an invalid one is reported and the
+// gene of the token hash renders instead
+export const getGeneFromUrl = (): Gene | undefined => {
+  if (typeof window === 'undefined') {
+    return undefined;
+  }
+  const encoded = new URLSearchParams(window.location.search).get(
+    GENE_QUERY_PARAM,
+  );
+  if (!encoded) {
+    return undefined;
+  }
+  try {
+    return decodeGene(encoded);
+  } catch (e) {
+    reportGeneError(
+      e,
+      `ignoring ?${GENE_QUERY_PARAM}=, rendering the gene of the token hash instead`,
+    );
+    return undefined;
+  }
+};
+
+// the current url with the gene override set, for sharing exact configurations
+export const getGeneUrl = (gene: Gene) => {
+  const url = new URL(window.location.href);
+  url.searchParams.set(GENE_QUERY_PARAM, encodeGene(gene));
+  return url.toString();
+};
+
+export const readGeneFile = async (file: Blob): Promise<Gene> =>
+  parseGene(await new Response(file).text());
+
+export const downloadGene = (gene: Gene, name = gene.seed) =>
+  downloadBlob(
+    new Blob([serializeGene(gene)], { type: 'application/json' }),
+    `${name}${GENE_FILE_EXTENSION}`,
+  );
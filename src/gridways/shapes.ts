@@ -0,0 +1,98 @@
+import { Cord, Rect } from '../types';
+import { randomRangeFactory, RandomSource } from '../utils/random';
+import { Gene, MotifName } from './gene';
+import { RectProps } from './layout';
+
+// the index of a motif is its id in the shaders
+export const MOTIFS: MotifName[] = ['none', 'circle', 'stripes', 'half'];
+
+// diameter of the circle motif relative to the short side of the rect
+export const CIRCLE_DIAMETER_RATIO = 0.6;
+
+export type ShapeFill = 'outside' | 'fill' | 'accent';
+
+// picks a motif for every rect by the motif ratios, draws nothing when the
+// gene has no shapes
+export const generateRectShapes = (
+  rand: RandomSource,
+  rectProps: RectProps[],
+  gene: Gene,
+): RectProps[] => {
+  const { shapes } = gene.foreground;
+  if (!shapes) {
+    return rectProps;
+  }
+  const { randomInArrayByWeights } = randomRangeFactory(rand);
+  return rectProps.map((props) => ({
+    ...props,
+    cornerRadius: shapes.cornerRadius,
+    strokeWidth: shapes.strokeWidth,
+    accentColor: shapes.accentColor ?? props.tintColor,
+    motif: randomInArrayByWeights(shapes.motifs, shapes.motifRatios),
+  }));
+};
+
+// signed distance to a rounded rect centered on the origin, negative inside
+export const roundedRectDistance = (
+  position: Cord,
+  halfSize: Cord,
+  radius: number,
+) => {
+  const q = [
+    Math.abs(position[0]) - halfSize[0] + radius,
+    Math.abs(position[1]) - halfSize[1] + radius,
+  ];
+  return (
+    Math.hypot(Math.max(q[0], 0), Math.max(q[1], 0)) +
+    Math.min(Math.max(q[0], q[1]), 0) -
+    radius
+  );
+};
+
+// mirrors the shape function of the rect fragment shader, position is in
+// pixels from the center of the rect
+export const getShapeFill = (
+  position: Cord,
+  halfSize: Cord,
+  props: RectProps,
+): ShapeFill => {
+  const { cornerRadius = 0, strokeWidth = 0, motif = 'none' } = props;
+  const shortSide = 2 * Math.min(halfSize[0], halfSize[1]);
+  const radius = cornerRadius * shortSide;
+  const distance = roundedRectDistance(position, halfSize, radius);
+  // square edges are clipped by the rasterization already, so rounding error
+  // along them never drops or strokes a pixel
+  if (radius > 0 && distance > 0) {
+    return 'outside';
+  }
+  if (strokeWidth > 0 && distance > -strokeWidth) {
+    return 'accent';
+  }
+  // motifs run along the long side of the rect
+  const along = halfSize[0] > halfSize[1] ? position[0] : position[1];
+  switch (motif) {
+    case 'circle':
+      return Math.hypot(position[0], position[1]) <
+        (CIRCLE_DIAMETER_RATIO * shortSide) / 2
+        ? 'accent'
+        : 'fill';
+    case 'stripes': {
+      const t = along / shortSide;
+      return t - Math.floor(t) < 0.5 ? 'accent' : 'fill';
+    }
+    case 'half':
+      return along < 0 ? 'accent' : 'fill';
+    default:
+      return 'fill';
+  }
+};
+
+export const getRectCenter = (rect: Rect): Cord => [
+  (rect[0][0] + rect[1][0]) / 2,
+  (rect[0][1] + rect[1][1]) / 2,
+];
+
+export const getRectHalfSize = (rect: Rect): Cord => [
+  (rect[1][0] - rect[0][0]) / 2,
+  (rect[1][1] - rect[0][1]) / 2,
+];
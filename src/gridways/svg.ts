@@ -0,0 +1,316 @@
+import { Cord, Rect } from '../types';
+import { PPI } from './constants';
+import { RectProps } from './layout';
+import { LayerName } from './layers';
+import { getLayeredSceneRects, Scene } from './scene';
+import {
+  CIRCLE_DIAMETER_RATIO,
+  getRectCenter,
+  getRectHalfSize,
+} from './shapes';
+
+export interface HatchOptions {
+  spacing: number; // distance between hatch lines in pixels
+  angle: number; // hatch angle in degrees, 0 is horizontal
+}
+
+export interface SvgOptions {
+  playhead?: number;
+  ppi?: number; // pixels per inch, sets the physical size of the document
+  hatch?: HatchOptions; // strokes rects with hatching instead of filling them
+  background?: boolean; // paints the background, ignored when hatching
+}
+
+export const DEFAULT_HATCH_OPTIONS: HatchOptions = {
+  spacing: 6,
+  angle: 45,
+};
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+// clips the infinite line through `origin` along `dir` to the rect,
+// liang-barsky restricted to an axis aligned box
+const clipLineToRect = (origin: Cord, dir: Cord, rect: Rect): Rect | null => {
+  let t0 = -Infinity;
+  let t1 = Infinity;
+  for (let axis = 0; axis < 2; axis++) {
+    const min = rect[0][axis];
+    const max = rect[1][axis];
+    if (dir[axis] === 0) {
+      if (origin[axis] < min || origin[axis] > max) {
+        return null;
+      }
+      continue;
+    }
+    const ta = (min - origin[axis]) / dir[axis];
+    const tb = (max - origin[axis]) / dir[axis];
+    t0 = Math.max(t0, Math.min(ta, tb));
+    t1 = Math.min(t1, Math.max(ta, tb));
+  }
+  if (t0 >= t1) {
+    return null;
+  }
+  return [
+    [origin[0] + dir[0] * t0, origin[1] + dir[1] * t0],
+    [origin[0] + dir[0] * t1, origin[1] + dir[1] * t1],
+  ];
+};
+
+export const hatchRect = (rect: Rect, options: HatchOptions): Rect[] => {
+  if (!(options.spacing > 0) || !isFinite(options.spacing)) {
+    throw new Error(
+      `hatch spacing expects a positive number, got ${options.spacing}`,
+    );
+  }
+  const angle = (options.angle * Math.PI) / 180;
+  const dir: Cord = [Math.cos(angle), Math.sin(angle)];
+  const normal: Cord = [-dir[1], dir[0]];
+  const center: Cord = [
+    (rect[0][0] + rect[1][0]) / 2,
+    (rect[0][1] + rect[1][1]) / 2,
+  ];
+  const halfDiagonal =
+    Math.hypot(rect[1][0] - rect[0][0], rect[1][1] - rect[0][1]) / 2;
+  const count = Math.floor(halfDiagonal / options.spacing);
+
+  const segments: Rect[] = [];
+  for (let i = -count; i <= count; i++) {
+    const origin: Cord = [
+      center[0] + normal[0] * i * options.spacing,
+      center[1] + normal[1] * i * options.spacing,
+    ];
+    const segment = clipLineToRect(origin, dir, rect);
+    if (segment) {
+      segments.push(segment);
+    }
+  }
+  return segments;
+};
+
+// every distinct set of colors is a layer, so a plotter can swap pens per group,
+// rects of the underlays are kept in their own layers
+const getLayerKey = (layerName: LayerName, props: RectProps) =>
+  layerName === 'rects'
+    ? props.colors.join('-')
+    : `${layerName}-${props.colors.join('-')}`;
+
+const rectToSvg = (rect: Rect, attrs: string) =>
+  `<rect x="${round(rect[0][0])}" y="${round(rect[0][1])}" width="${round(
+    rect[1][0] - rect[0][0],
+  )}" height="${round(rect[1][1] - rect[0][1])}" ${attrs}/>`;
+
+const insetRect = (rect: Rect, inset: number): Rect => [
+  [rect[0][0] + inset, rect[0][1] + inset],
+  [rect[1][0] - inset, rect[1][1] - inset],
+];
+
+const getCornerRadius = (rect: Rect, props: RectProps) => {
+  const halfSize = getRectHalfSize(rect);
+  return (props.cornerRadius ?? 0) * 2 * Math.min(halfSize[0], halfSize[1]);
+};
+
+const cornerRadiusAttrs = (radius: number) =>
+  radius > 0 ? `rx="${round(radius)}"` : '';
+
+const hasAccent = (props: RectProps) =>
+  (props.strokeWidth ?? 0) > 0 || (props.motif ?? 'none') !== 'none';
+
+// the motif in the rect, in pixels, mirrors getShapeFill
+const motifToSvg = (rect: Rect, props: RectProps) => {
+  const center = getRectCenter(rect);
+  const halfSize = getRectHalfSize(rect);
+  const shortSide = 2 * Math.min(halfSize[0], halfSize[1]);
+  const axis = halfSize[0] > halfSize[1] ? 0 : 1;
+  // a rect spanning `from` to `to` along the long side of the rect
+  const alongToSvg = (from: number, to: number) => {
+    const start = Math.max(center[axis] + from, rect[0][axis]);
+    const end = Math.min(center[axis] + to, rect[1][axis]);
+    if (end <= start) {
+      return '';
+    }
+    const band: Rect =
+      axis === 0
+        ? [
+            [start, rect[0][1]],
+            [end, rect[1][1]],
+          ]
+        : [
+            [rect[0][0], start],
+            [rect[1][0], end],
+          ];
+    return rectToSvg(band, '');
+  };
+
+  switch (props.motif) {
+    case 'circle':
+      return `<circle cx="${round(center[0])}" cy="${round(
+        center[1],
+      )}" r="${round((CIRCLE_DIAMETER_RATIO * shortSide) / 2)}"/>`;
+    case 'stripes': {
+      const stripes: string[] = [];
+      const first = Math.floor(-halfSize[axis] / shortSide);
+      for (let k = first; k * shortSide < halfSize[axis]; k++) {
+        stripes.push(alongToSvg(k * shortSide, (k + 0.5) * shortSide));
+      }
+      return stripes.join('');
+    }
+    case 'half':
+      return alongToSvg(-halfSize[axis], 0);
+    default:
+      return '';
+  }
+};
+
+// the stroke and motif of a rect, motifs are clipped to the inside of the stroke
+const accentToSvg = (rect: Rect, props: RectProps, clipId: string) => {
+  const radius = getCornerRadius(rect, props);
+  const strokeWidth = props.strokeWidth ?? 0;
+  const shapes: string[] = [];
+  const defs: string[] = [];
+  if (strokeWidth > 0) {
+    shapes.push(
+      rectToSvg(
+        insetRect(rect, strokeWidth / 2),
+        `${cornerRadiusAttrs(
+          Math.max(radius - strokeWidth / 2, 0),
+        )} fill="none" stroke="${props.accentColor}" stroke-width="${round(
+          strokeWidth,
+        )}"`,
+      ),
+    );
+  }
+  const motif = motifToSvg(rect, props);
+  if (motif) {
+    defs.push(
+      `<clipPath id="${clipId}">${rectToSvg(
+        insetRect(rect, strokeWidth),
+        cornerRadiusAttrs(Math.max(radius - strokeWidth, 0)),
+      )}</clipPath>`,
+    );
+    shapes.push(`<g clip-path="url(#${clipId})">${motif}</g>`);
+  }
+  return { shapes: shapes.join(''), defs };
+};
+
+const segmentsToPath = (segments: Rect[]) =>
+  segments
+    .map(
+      (s) =>
+        `M${round(s[0][0])} ${round(s[0][1])}L${round(s[1][0])} ${round(
+          s[1][1],
+        )}`,
+    )
+    .join('');
+
+const linearGradientToSvg = (id: string, colors: string[], isVert: boolean) => {
+  const stops = colors
+    .map(
+      (c, i) =>
+        `<stop offset="${round(
+          colors.length > 1 ? i / (colors.length - 1) : 0,
+        )}" stop-color="${c}"/>`,
+    )
+    .join('');
+  const end = isVert ? 'x2="0" y2="1"' : 'x2="1" y2="0"';
+  return `<linearGradient id="${id}" x1="0" y1="0" ${end}>${stops}</linearGradient>`;
+};
+
+// layered svg of the piece at its physical size, one group per color layer
+export const exportSvg = (scene: Scene, options: SvgOptions = {}): string => {
+  const { playhead = 0, ppi = PPI, hatch, background = true } = options;
+  const { rects, rectProps, layerNames } = getLayeredSceneRects(
+    scene,
+    playhead,
+  );
+  const defs: string[] = [];
+
+  // strokes and motifs are layers of their accent color above the rects
+  const layers = new Map<string, { indices: number[]; isAccent: boolean }>();
+  const addToLayer = (key: string, i: number, isAccent: boolean) => {
+    const layer = layers.get(key) ?? { indices: [], isAccent };
+    layer.indices.push(i);
+    layers.set(key, layer);
+  };
+  rects.forEach((_, i) => {
+    addToLayer(getLayerKey(layerNames[i], rectProps[i]), i, false);
+    if (hasAccent(rectProps[i])) {
+      addToLayer(`accent-${rectProps[i].accentColor}`, i, true);
+    }
+  });
+
+  // svg paints in document order, so lower layers go first
+  const sortedLayers = Array.from(layers.entries()).sort(
+    ([, a], [, b]) =>
+      rectProps[a.indices[0]].zIndex! - rectProps[b.indices[0]].zIndex! ||
+      Number(a.isAccent) - Number(b.isAccent),
+  );
+  const groups = sortedLayers.map(([key, { indices, isAccent }], layer) => {
+    const colors = isAccent
+      ? [rectProps[indices[0]].accentColor!]
+      : rectProps[indices[0]].colors;
+    const shapes = indices.map((i) => {
+      const rect = rects[i];
+      const props = rectProps[i];
+      if (isAccent) {
+        const accent = accentToSvg(rect, props, `motif-clip-${i}`);
+        defs.push(...accent.defs);
+        return accent.shapes;
+      }
+      const radiusAttrs = cornerRadiusAttrs(getCornerRadius(rect, props));
+      if (hatch) {
+        return `<path d="${segmentsToPath(
+          hatchRect(rect, hatch),
+        )}"/>${rectToSvg(rect, radiusAttrs)}`;
+      }
+      if (colors.length === 1) {
+        return rectToSvg(rect, radiusAttrs);
+      }
+      const id = `gradient-${layer}-${props.isGradientVert ? 'v' : 'h'}`;
+      if (!defs.some((d) => d.includes(`id="${id}"`))) {
+        defs.push(linearGradientToSvg(id, colors, props.isGradientVert));
+      }
+      return rectToSvg(
+        rect,
+        [radiusAttrs, `fill="url(#${id})"`].filter(Boolean).join(' '),
+      );
+    });
+    const style = hatch
+      ? `fill="none" stroke="${colors[0]}" stroke-width="1"`
+      : `fill="${colors[0]}"`;
+    return `<g id="layer-${layer}" inkscape:groupmode="layer" inkscape:label="${
+      layer + 1
+    } ${key}" ${style}>${shapes.join('')}</g>`;
+  });
+
+  if (background && !hatch) {
+    // the background shader mixes from the second color on the left
+    defs.push(
+      linearGradientToSvg(
+        'background-gradient',
+        [scene.background.colors[1], scene.background.colors[0]],
+        false,
+      ),
+    );
+    groups.unshift(
+      `<g id="background" inkscape:groupmode="layer" inkscape:label="background">${rectToSvg(
+        [
+          [0, 0],
+          [scene.width, scene.height],
+        ],
+        'fill="url(#background-gradient)"',
+      )}</g>`,
+    );
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape" width="${round(
+      scene.width / ppi,
+    )}in" height="${round(scene.height / ppi)}in" viewBox="0 0 ${scene.width} ${
+      scene.height
+    }">`,
+    `<defs>${defs.join('')}</defs>`,
+    ...groups,
+    '</svg>',
+  ].join('\n');
+};
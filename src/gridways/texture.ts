@@ -0,0 +1,26 @@
+import { glslRandom, glslSimplex2D } from '../utils/noise';
+
+// mirrors the grain function of the fragment shaders, cell size is in pixels
+const grain = (fragCoord: number[], resolution: number[], cellSize: number) => {
+  const cell = fragCoord.map(
+    (c, i) => ((Math.floor(c / cellSize) + 0.5) * cellSize) / resolution[i],
+  );
+  const visibility = Math.min(Math.max(cellSize, 0), 1);
+  return 0.5 * (1 - visibility) + glslRandom(cell[0], cell[1]) * visibility;
+};
+
+// mirrors how much of the tint color the rect and background fragment shaders
+// mix in, fragCoord is gl_FragCoord, from the bottom left of the image
+export const getTintAmount = (
+  pointilism: number,
+  fragCoord: number[],
+  resolution: number[],
+  cellSize: number,
+) => {
+  const cord = [fragCoord[0] / resolution[0], fragCoord[1] / resolution[1]];
+  const smoothCoeff = Math.abs(
+    glslSimplex2D(cord[0] * pointilism, cord[1] * pointilism),
+  );
+  const noiseCoeff = grain(fragCoord, resolution, cellSize);
+  return smoothCoeff * noiseCoeff;
+};
@@ -0,0 +1,94 @@
+import { Rect } from '../types';
+import { createImage, RGBAImage } from '../utils/png';
+import { PPI } from './constants';
+import { Viewport } from './viewport';
+
+export interface PrintOptions {
+  widthInInches: number; // the height follows the aspect ratio of the scene
+  ppi?: number;
+  tileSize?: number; // in pixels, clamped to the gpu limits
+}
+
+// largest tile we ask for even when the gpu allows more, keeps reads small
+export const DEFAULT_TILE_SIZE = 2048;
+
+// parses `<width in inches>[@<ppi>]`, e.g. `24@600`
+export const parsePrintOptions = (value: string): PrintOptions => {
+  const match = /^(\d+(?:\.\d+)?)(?:@(\d+))?$/.exec(value);
+  const options = match && {
+    widthInInches: Number(match[1]),
+    ppi: match[2] ? Number(match[2]) : PPI,
+  };
+  if (!options || !(options.widthInInches > 0) || !(options.ppi > 0)) {
+    throw new Error(
+      `invalid print size: ${value}, expected <width in inches>[@<ppi>]`,
+    );
+  }
+  return options;
+};
+
+// row major tiles covering the image, edge tiles are cut to fit
+export const getTiles = (
+  width: number,
+  height: number,
+  tileSize: number,
+): Rect[] => {
+  const tiles: Rect[] = [];
+  for (let y = 0; y < height; y += tileSize) {
+    for (let x = 0; x < width; x += tileSize) {
+      tiles.push([
+        [x, y],
+        [Math.min(x + tileSize, width), Math.min(y + tileSize, height)],
+      ]);
+    }
+  }
+  return tiles;
+};
+
+// output pixels per scene pixel of a print
+export const getPrintScale = (
+  sceneSize: [number, number],
+  { widthInInches, ppi = PPI }: PrintOptions,
+) => (widthInInches * ppi) / sceneSize[0];
+
+// renders the scene at print size tile by tile into framebuffers and stitches
+// the tiles into one image, `draw` paints everything visible in a viewport
+export const renderTiled = (
+  regl: any,
+  sceneSize: [number, number],
+  draw: (viewport: Viewport) => void,
+  options: PrintOptions,
+): RGBAImage => {
+  const { tileSize = DEFAULT_TILE_SIZE } = options;
+  const scale = getPrintScale(sceneSize, options);
+  const width = Math.round(sceneSize[0] * scale);
+  const height = Math.round(sceneSize[1] * scale);
+  const maxTileSize = Math.min(
+    tileSize,
+    regl.limits.maxRenderbufferSize,
+    ...regl.limits.maxViewportDims,
+  );
+
+  const image = createImage(width, height);
+  const framebuffer = regl.framebuffer({ width: 1, height: 1 });
+  getTiles(width, height, maxTileSize).forEach((tile) => {
+    const tileWidth = tile[1][0] - tile[0][0];
+    const tileHeight = tile[1][1] - tile[0][1];
+    framebuffer.resize(tileWidth, tileHeight);
+    framebuffer.use(() => {
+      regl.clear({ color: [1, 1, 1, 1], depth: 1 });
+      draw({ resolution: [width, height], scale, tile });
+      const pixels: Uint8Array = regl.read({ framebuffer });
+      // read rows start at the bottom of the tile
+      for (let y = 0; y < tileHeight; y++) {
+        const from = (tileHeight - 1 - y) * tileWidth * 4;
+        image.data.set(
+          pixels.subarray(from, from + tileWidth * 4),
+          ((tile[0][1] + y) * width + tile[0][0]) * 4,
+        );
+      }
+    });
+  });
+  framebuffer.destroy();
+  return image;
+};
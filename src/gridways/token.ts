@@ -0,0 +1,52 @@
+import { convertHexToColor } from '../utils/color';
+import { getTokenSeed } from '../utils/seed';
+import { getDimensions } from './aspect';
+import { createCanvasRenderer } from './canvas-renderer';
+import { extractFeatures } from './features';
+import { createRenderer, isWebGLSupported } from './renderer';
+import { layoutScene } from './scene';
+import { getFullViewport } from './viewport';
+
+// entry of the art blocks submission, see scripts/build-token.ts, renders the
+// token of `tokenData` once into a canvas fitted to the window without
+// canvas-sketch, regl comes from the art blocks library as `createREGL`
+const main = () => {
+  const token = getTokenSeed();
+  // extractFeatures only emits valid and normalized genes
+  const { gene } = extractFeatures(token.hash);
+  const scene = layoutScene(gene, ...getDimensions());
+
+  // the largest size of the scene aspect ratio the window holds
+  const fit = Math.min(
+    window.innerWidth / scene.width,
+    window.innerHeight / scene.height,
+  );
+  const styleSize = [scene.width * fit, scene.height * fit];
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(styleSize[0] * window.devicePixelRatio);
+  canvas.height = Math.round(styleSize[1] * window.devicePixelRatio);
+  Object.assign(canvas.style, {
+    display: 'block',
+    margin: 'auto',
+    width: `${styleSize[0]}px`,
+    height: `${styleSize[1]}px`,
+  });
+  Object.assign(document.body.style, { margin: '0', background: '#ffffff' });
+  document.body.appendChild(canvas);
+
+  const regl =
+    typeof createREGL !== 'undefined' && isWebGLSupported()
+      ? createREGL({ canvas, extensions: ['ANGLE_instanced_arrays'] })
+      : undefined;
+  const renderer = regl
+    ? createRenderer(regl)
+    : createCanvasRenderer(canvas.getContext('2d')!);
+  renderer.setScene(scene);
+  regl?.clear({ color: convertHexToColor('#ffffff'), depth: 1 });
+  renderer.draw(
+    0,
+    getFullViewport([scene.width, scene.height], [canvas.width, canvas.height]),
+  );
+};
+
+main();
@@ -0,0 +1,466 @@
+import { getEasing } from '../utils/easing';
+import {
+  joinPath,
+  JsonSchema,
+  SchemaIssue,
+  validateSchema,
+} from '../utils/schema';
+import { Gene, MAX_COLOR_STOPS, SimpleColorPallete } from './gene';
+import { PARTITIONING_STRATEGIES } from './partitioning';
+import { MOTIFS } from './shapes';
+
+export type GeneIssue = SchemaIssue;
+
+export class GeneValidationError extends Error {
+  issues: GeneIssue[];
+
+  constructor(issues: GeneIssue[]) {
+    super(
+      `invalid gene:\n${issues
+        .map((issue) => `  ${issue.path}: ${issue.message}`)
+        .join('\n')}`,
+    );
+    this.name = 'GeneValidationError';
+    this.issues = issues;
+    // keeps instanceof working when compiled to es5
+    Object.setPrototypeOf(this, GeneValidationError.prototype);
+  }
+}
+
+// absorbs floating point error in ratio sums and fitted grid sizes
+const EPSILON = 1e-6;
+
+const color: JsonSchema = {
+  type: 'string',
+  pattern: '^#([0-9a-fA-F]{3}|[0-9a-fA-F]{6})$',
+};
+const colors = (minItems: number, maxItems?: number): JsonSchema => ({
+  type: 'array',
+  items: color,
+  minItems,
+  maxItems,
+});
+const nonNegativeNumber: JsonSchema = { type: 'number', minimum: 0 };
+const positiveNumber: JsonSchema = { type: 'number', exclusiveMinimum: 0 };
+const nonNegativeInteger: JsonSchema = { type: 'integer', minimum: 0 };
+const positiveInteger: JsonSchema = { type: 'integer', minimum: 1 };
+const ratio: JsonSchema = { type: 'number', minimum: 0, maximum: 1 };
+const ratios: JsonSchema = {
+  type: 'array',
+  items: nonNegativeNumber,
+  minItems: 1,
+};
+const pair = (items: JsonSchema): JsonSchema => ({
+  type: 'array',
+  items,
+  minItems: 2,
+  maxItems: 2,
+});
+const easing: JsonSchema = { type: 'string' };
+
+export const GENE_SCHEMA: JsonSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  title: 'Gene',
+  description: 'visual elements are in pixels unless specified',
+  type: 'object',
+  required: [
+    'seed',
+    'animation',
+    'foreground',
+    'background',
+    'gridLinesToRects',
+    'gridPartitioning',
+  ],
+  additionalProperties: false,
+  properties: {
+    seed: { type: 'string' },
+    animation: {
+      type: 'object',
+      required: [
+        'endDelayInTicks',
+        'startDelayInTicks',
+        'breathDurationInTicksPerUnit',
+        'bloomMaxStartDelayInTicks',
+        'easing',
+      ],
+      additionalProperties: false,
+      properties: {
+        endDelayInTicks: nonNegativeInteger,
+        startDelayInTicks: nonNegativeInteger,
+        breathDurationInTicksPerUnit: positiveInteger,
+        bloomMaxStartDelayInTicks: nonNegativeInteger,
+        easing,
+        phaseEasings: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            'static': easing,
+            'start-suck': easing,
+            'start-expand': easing,
+            'end-suck': easing,
+            'end-expand': easing,
+          },
+        },
+      },
+    },
+    foreground: {
+      type: 'object',
+      required: [
+        'pointilism',
+        'colorPointilism',
+        'colorPalletes',
+        'colorPalletesRatio',
+        'colorSprinkleRatio',
+        'colorPalletesSprinkleRatio',
+      ],
+      additionalProperties: false,
+      properties: {
+        pointilism: nonNegativeNumber,
+        colorPointilism: nonNegativeNumber,
+        colorPalletes: {
+          type: 'array',
+          minItems: 1,
+          items: {
+            type: 'object',
+            required: ['colors', 'tintColors', 'type'],
+            additionalProperties: false,
+            properties: {
+              colors: colors(1, MAX_COLOR_STOPS),
+              tintColors: colors(1),
+              pointilism: nonNegativeNumber,
+              type: { type: 'string', enum: ['simple', 'gradient'] },
+              colorRatios: ratios,
+              direction: {
+                type: 'string',
+                enum: ['along', 'across', 'horizontal', 'vertical'],
+              },
+            },
+          },
+        },
+        colorPalletesRatio: ratios,
+        colorSprinkleRatio: ratio,
+        colorPalletesSprinkleRatio: ratios,
+        grainSize: positiveNumber,
+        shapes: {
+          type: 'object',
+          required: ['cornerRadius', 'strokeWidth', 'motifs', 'motifRatios'],
+          additionalProperties: false,
+          properties: {
+            cornerRadius: { type: 'number', minimum: 0, maximum: 0.5 },
+            strokeWidth: nonNegativeNumber,
+            accentColor: color,
+            motifs: {
+              type: 'array',
+              items: { type: 'string', enum: MOTIFS },
+              minItems: 1,
+            },
+            motifRatios: ratios,
+          },
+        },
+      },
+    },
+    background: {
+      type: 'object',
+      required: ['colors', 'tintColor', 'pointilism'],
+      additionalProperties: false,
+      properties: {
+        colors: colors(2, 2),
+        tintColor: color,
+        pointilism: nonNegativeNumber,
+        grainSize: positiveNumber,
+      },
+    },
+    gridLinesToRects: {
+      type: 'object',
+      required: ['gitter'],
+      additionalProperties: false,
+      properties: {
+        gitter: pair(ratio),
+      },
+    },
+    gridPartitioning: {
+      type: 'object',
+      required: ['gap', 'unitSize', 'gridSizeInUnits', 'vertOrHorzRatio'],
+      additionalProperties: false,
+      properties: {
+        gap: nonNegativeNumber,
+        unitSize: pair({ type: 'number', minimum: 0 }),
+        gridSizeInUnits: pair(positiveInteger),
+        vertOrHorzRatio: ratio,
+        strategy: {
+          type: 'string',
+          enum: Object.keys(PARTITIONING_STRATEGIES),
+        },
+        minSegmentLength: positiveInteger,
+        maxSegmentLength: positiveInteger,
+      },
+    },
+    layers: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        backgroundRects: {
+          type: 'object',
+          required: ['darken'],
+          additionalProperties: false,
+          properties: {
+            darken: ratio,
+          },
+        },
+        shadow: {
+          type: 'object',
+          required: ['offset'],
+          additionalProperties: false,
+          properties: {
+            offset: pair({ type: 'number' }),
+            color,
+            darken: ratio,
+          },
+        },
+      },
+    },
+    postProcessing: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        bloom: {
+          type: 'object',
+          required: ['threshold', 'strength', 'spread'],
+          additionalProperties: false,
+          properties: {
+            threshold: ratio,
+            strength: nonNegativeNumber,
+            spread: nonNegativeNumber,
+          },
+        },
+        chromaticAberration: {
+          type: 'object',
+          required: ['offset'],
+          additionalProperties: false,
+          properties: {
+            offset: nonNegativeNumber,
+          },
+        },
+        vignette: {
+          type: 'object',
+          required: ['strength', 'radius'],
+          additionalProperties: false,
+          properties: {
+            strength: ratio,
+            radius: ratio,
+          },
+        },
+        paper: {
+          type: 'object',
+          required: ['strength', 'fibreSize'],
+          additionalProperties: false,
+          properties: {
+            strength: ratio,
+            fibreSize: positiveNumber,
+          },
+        },
+        filmGrain: {
+          type: 'object',
+          required: ['strength'],
+          additionalProperties: false,
+          properties: {
+            strength: ratio,
+            grainSize: positiveNumber,
+          },
+        },
+      },
+    },
+  },
+};
+
+const sum = (values: number[]) => values.reduce((total, v) => total + v, 0);
+
+// scales the ratios to sum to 1, ratios that already do or are all zero are
+// left as is so existing genes keep their exact values
+const normalizeRatios = (values: number[]) => {
+  const total = sum(values);
+  return total > 0 && Math.abs(total - 1) > EPSILON
+    ? values.map((v) => v / total)
+    : values;
+};
+
+// returns a copy of the gene with every ratio array scaled to sum to 1
+export const normalizeGene = (gene: Gene): Gene => ({
+  ...gene,
+  foreground: {
+    ...gene.foreground,
+    colorPalletes: gene.foreground.colorPalletes.map((pallete) =>
+      pallete.type === 'simple' &&
+      Array.isArray((pallete as SimpleColorPallete).colorRatios)
+        ? {
+            ...pallete,
+            colorRatios: normalizeRatios(
+              (pallete as SimpleColorPallete).colorRatios,
+            ),
+          }
+        : pallete,
+    ),
+    colorPalletesRatio: normalizeRatios(gene.foreground.colorPalletesRatio),
+    colorPalletesSprinkleRatio: normalizeRatios(
+      gene.foreground.colorPalletesSprinkleRatio,
+    ),
+    ...(gene.foreground.shapes && {
+      shapes: {
+        ...gene.foreground.shapes,
+        motifRatios: normalizeRatios(gene.foreground.shapes.motifRatios),
+      },
+    }),
+  },
+});
+
+const checkRatios = (
+  issues: GeneIssue[],
+  path: string,
+  values: number[],
+  length: number,
+  lengthOf: string,
+) => {
+  if (values.length !== length) {
+    issues.push({
+      path,
+      message: `expected ${length} items to match ${lengthOf}, got ${values.length}`,
+    });
+  }
+  if (Math.abs(sum(values) - 1) > EPSILON) {
+    issues.push({ path, message: `expected to sum to 1, got ${sum(values)}` });
+  }
+};
+
+// checks that can't be expressed in the schema, run once the shape is valid
+const validateGeneSemantics = (
+  gene: Gene,
+  dimensions: number[],
+): GeneIssue[] => {
+  const issues: GeneIssue[] = [];
+  const { foreground, animation, gridPartitioning } = gene;
+  const palletesPath = 'foreground.colorPalletes';
+
+  checkRatios(
+    issues,
+    'foreground.colorPalletesRatio',
+    foreground.colorPalletesRatio,
+    foreground.colorPalletes.length,
+    palletesPath,
+  );
+  if (foreground.colorSprinkleRatio > 0) {
+    checkRatios(
+      issues,
+      'foreground.colorPalletesSprinkleRatio',
+      foreground.colorPalletesSprinkleRatio,
+      foreground.colorPalletes.length,
+      palletesPath,
+    );
+  }
+
+  if (foreground.shapes) {
+    checkRatios(
+      issues,
+      'foreground.shapes.motifRatios',
+      foreground.shapes.motifRatios,
+      foreground.shapes.motifs.length,
+      'foreground.shapes.motifs',
+    );
+  }
+
+  foreground.colorPalletes.forEach((pallete, i) => {
+    const path = joinPath(palletesPath, i);
+    if (pallete.type === 'simple') {
+      const { colorRatios } = pallete as SimpleColorPallete;
+      if (!colorRatios) {
+        issues.push({
+          path: joinPath(path, 'colorRatios'),
+          message: 'is required for simple palletes',
+        });
+      } else {
+        checkRatios(
+          issues,
+          joinPath(path, 'colorRatios'),
+          colorRatios,
+          pallete.colors.length,
+          joinPath(path, 'colors'),
+        );
+      }
+      if (pallete.tintColors.length !== pallete.colors.length) {
+        issues.push({
+          path: joinPath(path, 'tintColors'),
+          message: `expected ${pallete.colors.length} items to match ${joinPath(
+            path,
+            'colors',
+          )}, got ${pallete.tintColors.length}`,
+        });
+      }
+    }
+    if (pallete.type === 'gradient' && pallete.colors.length < 2) {
+      issues.push({
+        path: joinPath(path, 'colors'),
+        message: `expected at least 2 stops for gradient palletes, got ${pallete.colors.length}`,
+      });
+    }
+  });
+
+  const phaseEasings = animation.phaseEasings ?? {};
+  const phases = Object.keys(phaseEasings) as (keyof typeof phaseEasings)[];
+  const easings: [string, string][] = [['animation.easing', animation.easing]];
+  phases.forEach((phase) => {
+    const name = phaseEasings[phase];
+    if (name !== undefined) {
+      easings.push([joinPath('animation.phaseEasings', phase), name]);
+    }
+  });
+  easings.forEach(([path, name]) => {
+    try {
+      getEasing(name);
+    } catch (e) {
+      issues.push({ path, message: `unknown easing ${JSON.stringify(name)}` });
+    }
+  });
+
+  const { unitSize, gridSizeInUnits, gap } = gridPartitioning;
+  [0, 1].forEach((axis) => {
+    const size =
+      unitSize[axis] * gridSizeInUnits[axis] +
+      gap * (gridSizeInUnits[axis] - 1);
+    if (size > dimensions[axis] + EPSILON) {
+      issues.push({
+        path: joinPath('gridPartitioning.gridSizeInUnits', axis),
+        message: `grid spans ${size}px with the given unitSize and gap, more than the ${dimensions[axis]}px available`,
+      });
+    }
+  });
+  if (
+    gridPartitioning.minSegmentLength !== undefined &&
+    gridPartitioning.maxSegmentLength !== undefined &&
+    gridPartitioning.minSegmentLength > gridPartitioning.maxSegmentLength
+  ) {
+    issues.push({
+      path: 'gridPartitioning.minSegmentLength',
+      message: `expected at most maxSegmentLength (${gridPartitioning.maxSegmentLength}), got ${gridPartitioning.minSegmentLength}`,
+    });
+  }
+
+  return issues;
+};
+
+// every issue in the gene for a canvas of the given dimensions, empty when valid,
+// ratios are checked once normalized like the renderer does
+export const validateGene = (gene: any, dimensions: number[]): GeneIssue[] => {
+  const issues = validateSchema(gene, GENE_SCHEMA);
+  return issues.length
+    ? issues
+    : validateGeneSemantics(normalizeGene(gene), dimensions);
+};
+
+// normalizes the gene's ratios and throws a GeneValidationError listing every
+// issue when it still isn't renderable
+export const assertValidGene = (gene: Gene, dimensions: number[]): Gene => {
+  const issues = validateGene(gene, dimensions);
+  if (issues.length) {
+    throw new GeneValidationError(issues);
+  }
+  return normalizeGene(gene);
+};
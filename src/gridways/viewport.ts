@@ -0,0 +1,30 @@
+import { Rect } from '../types';
+
+// the part of the output image a draw call paints, shaders offset
+// gl_FragCoord by the tile so noise stays continuous across tile seams
+export interface Viewport {
+  resolution: [number, number]; // size of the full output image in pixels
+  scale: number; // output pixels per scene pixel
+  tile: Rect; // drawn region of the output, in pixels from the top left
+}
+
+// the whole scene drawn into an output of the given size, e.g. the drawing
+// buffer which is larger than the scene on high dpi screens
+export const getFullViewport = (
+  sceneSize: [number, number],
+  outputSize: [number, number],
+): Viewport => ({
+  resolution: outputSize,
+  scale: outputSize[0] / sceneSize[0],
+  tile: [[0, 0], outputSize],
+});
+
+// uniforms shared by every command drawing into a viewport
+export const getViewportUniforms = ({ resolution, scale, tile }: Viewport) => ({
+  resolution,
+  scale,
+  tileOrigin: tile[0],
+  tileSize: [tile[1][0] - tile[0][0], tile[1][1] - tile[0][1]],
+  // gl_FragCoord starts at the bottom left of the tile
+  fragCoordOffset: [tile[0][0], resolution[1] - tile[1][1]],
+});
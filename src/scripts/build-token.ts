@@ -0,0 +1,202 @@
+import * as browserify from 'browserify';
+import * as fs from 'fs';
+import { isEqual } from 'lodash';
+import * as path from 'path';
+import { Transform } from 'stream';
+import { minify } from 'terser';
+import * as zlib from 'zlib';
+
+import { getStringArg, parseArgs } from '../utils/args';
+import { generateRandomHash } from '../utils/seed';
+import { resolvePallete } from '../gridways/palette';
+
+// builds the art blocks submission, a single minified script reading
+// `tokenData` that only depends on regl
+//
+//   yarn build:token [--out out/token] [--hash 0x...]
+//
+// run `yarn build` first, the script bundles the compiled entry. Also writes
+// index.html, a harness injecting mock `tokenData` for the hash of the url,
+// `?hash=0x...`, or the --hash it was built with, and prints a size report
+const ENTRY = path.join(__dirname, '..', 'gridways', 'token.js');
+const REGL_SCRIPT = require.resolve('regl/dist/regl.min.js');
+
+// packages imported by name whose functions have a module of their own, the
+// bundle requires only the functions the source uses
+const FUNCTION_MODULES: { [name: string]: (fn: string) => string } = {
+  lodash: (fn) => `lodash/${fn}`,
+  polished: (fn) => `polished/lib/color/${fn}`,
+};
+
+// node modules and globals the bundle never reaches, zlib and Buffer only
+// encode pngs. validation.ts is only called by createScene, the token lays out
+// its gene with layoutScene
+const IGNORED_MODULES = [
+  'zlib',
+  path.join(__dirname, '..', 'gridways', 'validation.js'),
+];
+const IGNORED_GLOBALS = { 'Buffer': undefined, 'Buffer.isBuffer': undefined };
+
+// browserify transform of a whole file at once
+const createTransform = (transform: (source: string) => string) => {
+  let source = '';
+  return new Transform({
+    transform(chunk, encoding, next) {
+      source += chunk;
+      next();
+    },
+    flush(done) {
+      this.push(transform(source));
+      done();
+    },
+  });
+};
+
+// `const lodash_1 = require("lodash")` becomes an object of the functions
+// read from `lodash_1`, each required from its own module
+const requireFunctionModules = () =>
+  createTransform((source) =>
+    source.replace(
+      /const (\w+) = require\("(\w+)"\);/g,
+      (statement, name: string, packageName: string) => {
+        const getModule = FUNCTION_MODULES[packageName];
+        if (!getModule) {
+          return statement;
+        }
+        const accesses =
+          source.match(new RegExp(`\\b${name}\\.\\w+`, 'g')) ?? [];
+        const functions = Array.from(
+          new Set(accesses.map((access) => access.slice(name.length + 1))),
+        );
+        const requires = functions.map(
+          (fn) => `${fn}: require(${JSON.stringify(getModule(fn))})`,
+        );
+        return `const ${name} = { ${requires.join(', ')} };`;
+      },
+    ),
+  );
+
+// palettes swapped for a harmony only paint their first color, repeating it
+// keeps the pallete rejected, see resolvePallete, and compresses to nothing
+const getReachedColors = (colors: string[], index: number) => {
+  if (!resolvePallete(colors, index).harmony) {
+    return colors;
+  }
+  const reached = colors.map(() => colors[0]);
+  if (!isEqual(resolvePallete(reached, index), resolvePallete(colors, index))) {
+    throw new Error(`can't pack rejected palette ${JSON.stringify(colors)}`);
+  }
+  return reached;
+};
+
+// palettes are 4 hex colors, packed into one string they take half the bytes
+// of the json and decode to the same palettes
+const packPalettes = (file: string) =>
+  /colors\.json$/.test(file)
+    ? createTransform((source) => {
+        const palettes: string[][] = (JSON.parse(source) as string[][]).map(
+          getReachedColors,
+        );
+        const invalid = palettes.find(
+          (colors) =>
+            colors.length !== 4 ||
+            colors.some((color) => !/^#[0-9a-f]{6}$/.test(color)),
+        );
+        if (invalid) {
+          throw new Error(`can't pack palette ${JSON.stringify(invalid)}`);
+        }
+        const packed = palettes
+          .map((colors) => colors.map((color) => color.slice(1)).join(''))
+          .join('');
+        // an expression, browserify prefixes json modules with module.exports=
+        return `${JSON.stringify(
+          packed,
+        )}.match(/.{24}/g).map(function(p){return p.match(/.{6}/g).map(function(c){return "#"+c})})`;
+      })
+    : createTransform((source) => source);
+
+const createHarness = (hash: string) => `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>token harness</title>
+  </head>
+  <body>
+    <script>
+      // mock of the tokenData art blocks injects, ?hash=0x... renders another token
+      const params = new URLSearchParams(window.location.search);
+      let tokenData = {
+        hash: params.get('hash') || '${hash}',
+        tokenId: params.get('tokenId') || '0',
+      };
+    </script>
+    <script src="regl.min.js"></script>
+    <script src="token.min.js"></script>
+  </body>
+</html>
+`;
+
+const formatBytes = (bytes: number) => `${(bytes / 1024).toFixed(1)} kB`;
+
+// node_modules files are summed per package, the rest per file
+const getSourceName = (file: string) => {
+  const match = /node_modules[\\/]((?:@[^\\/]+[\\/])?[^\\/]+)/.exec(file);
+  return match ? match[1] : path.relative(process.cwd(), file);
+};
+
+const bundle = (sourceSizes: Map<string, number>) =>
+  new Promise<string>((resolve, reject) => {
+    const bundler = browserify(ENTRY, { insertGlobalVars: IGNORED_GLOBALS });
+    IGNORED_MODULES.forEach((name) => bundler.ignore(name));
+    bundler.transform(requireFunctionModules);
+    bundler.transform(packPalettes);
+    bundler.transform('glslify');
+    bundler.on('dep', (row: { file: string; source: string }) => {
+      const name = getSourceName(row.file);
+      sourceSizes.set(name, (sourceSizes.get(name) ?? 0) + row.source.length);
+    });
+    bundler.bundle((error: Error | null, buffer: Buffer) =>
+      error ? reject(error) : resolve(buffer.toString()),
+    );
+  });
+
+const main = async () => {
+  const args = parseArgs();
+  const out = getStringArg(args, 'out', path.join('out', 'token'));
+  const hash = getStringArg(args, 'hash', generateRandomHash());
+
+  const sourceSizes = new Map<string, number>();
+  const code = await bundle(sourceSizes);
+  const minified = minify(code, {
+    ecma: 8,
+    toplevel: true,
+    compress: { passes: 2 },
+  });
+  if (minified.error || !minified.code) {
+    throw minified.error ?? new Error('terser returned no code');
+  }
+
+  fs.mkdirSync(out, { recursive: true });
+  fs.writeFileSync(path.join(out, 'token.min.js'), minified.code);
+  fs.copyFileSync(REGL_SCRIPT, path.join(out, 'regl.min.js'));
+  fs.writeFileSync(path.join(out, 'index.html'), createHarness(hash));
+
+  const largest = Array.from(sourceSizes.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 12);
+  largest.forEach(([name, size]) =>
+    console.log(formatBytes(size).padStart(10), name),
+  );
+  console.log(
+    `token.min.js is ${formatBytes(minified.code.length)}, ${formatBytes(
+      zlib.gzipSync(minified.code).length,
+    )} gzipped, from ${formatBytes(code.length)} bundled`,
+  );
+  console.log(`wrote token.min.js and the harness index.html to ${out}`);
+};
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,40 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { getStringArg, parseArgs } from '../utils/args';
+import { generateRandomHash } from '../utils/seed';
+import { GENE_QUERY_PARAM } from '../gridways/constants';
+import { extractFeatures } from '../gridways/features';
+import {
+  encodeGene,
+  GENE_FILE_EXTENSION,
+  serializeGene,
+} from '../gridways/serialization';
+
+// writes the gene of a token as json, to be edited and loaded back with
+// `--gene` or by dropping it on the sketch
+//
+//   yarn export:gene --hash 0x... [--out out/token.gene.json] [--url]
+//
+// --url also prints the `?gene=` query param of the gene
+const main = () => {
+  const args = parseArgs();
+  const hash = getStringArg(args, 'hash', generateRandomHash());
+  const out = getStringArg(
+    args,
+    'out',
+    path.join('out', `${hash}${GENE_FILE_EXTENSION}`),
+  );
+
+  const { gene } = extractFeatures(hash);
+
+  fs.mkdirSync(path.dirname(out), { recursive: true });
+  fs.writeFileSync(out, `${serializeGene(gene)}\n`);
+  console.log(`exported gene of ${hash} to ${out}`);
+
+  if (args.url) {
+    console.log(`?${GENE_QUERY_PARAM}=${encodeGene(gene)}`);
+  }
+};
+
+main();
@@ -0,0 +1,67 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { getNumberArg, getStringArg, parseArgs } from '../utils/args';
+import { generateRandomHash } from '../utils/seed';
+import {
+  DEFAULT_ASPECT_RATIO,
+  getDimensions,
+  parseAspectRatio,
+} from '../gridways/aspect';
+import { PPI } from '../gridways/constants';
+import { extractFeatures } from '../gridways/features';
+import { parseGene } from '../gridways/serialization';
+import { createScene } from '../gridways/scene';
+import { DEFAULT_HATCH_OPTIONS, exportSvg } from '../gridways/svg';
+
+// exports a token as layered svg for prints and pen plotters
+//
+//   yarn export:svg --hash 0x... [--out out/token.svg] [--ppi 300]
+//     [--playhead 0] [--aspect 4:5] [--no-background]
+//     [--hatch] [--hatch-spacing 6] [--hatch-angle 45]
+//   yarn export:svg --gene token.gene.json ...
+const main = () => {
+  const args = parseArgs();
+  const hash = getStringArg(args, 'hash', generateRandomHash());
+  const gene =
+    typeof args.gene === 'string'
+      ? parseGene(fs.readFileSync(args.gene, 'utf8'))
+      : extractFeatures(hash).gene;
+  const name =
+    typeof args.gene === 'string' ? path.basename(args.gene, '.json') : hash;
+  const out = getStringArg(args, 'out', path.join('out', `${name}.svg`));
+  const hatchSpacing = getNumberArg(
+    args,
+    'hatch-spacing',
+    DEFAULT_HATCH_OPTIONS.spacing,
+  );
+  if (!(hatchSpacing > 0) || !isFinite(hatchSpacing)) {
+    throw new Error(
+      `--hatch-spacing expects a positive number, got ${hatchSpacing}`,
+    );
+  }
+
+  const scene = createScene(
+    gene,
+    ...getDimensions(
+      parseAspectRatio(getStringArg(args, 'aspect', DEFAULT_ASPECT_RATIO)),
+    ),
+  );
+  const svg = exportSvg(scene, {
+    playhead: getNumberArg(args, 'playhead', 0),
+    ppi: getNumberArg(args, 'ppi', PPI),
+    background: !args['no-background'],
+    hatch: args.hatch
+      ? {
+          spacing: hatchSpacing,
+          angle: getNumberArg(args, 'hatch-angle', DEFAULT_HATCH_OPTIONS.angle),
+        }
+      : undefined,
+  });
+
+  fs.mkdirSync(path.dirname(out), { recursive: true });
+  fs.writeFileSync(out, svg);
+  console.log(`exported ${name} to ${out}`);
+};
+
+main();
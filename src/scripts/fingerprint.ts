@@ -0,0 +1,66 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { getNumberArg, getStringArg, parseArgs } from '../utils/args';
+import {
+  checkFingerprints,
+  createFingerprintManifest,
+  FingerprintManifest,
+  formatFingerprintDrifts,
+  formatFingerprintManifest,
+  getFingerprintHashes,
+} from '../gridways/fingerprint';
+import { getGalleryHashes } from '../gridways/gallery';
+
+// guards the output of every token against drift across code changes
+//
+//   yarn fingerprint [--manifest src/data/fingerprints.json] [--max-rects 5]
+//   yarn fingerprint --update [--count 16] [--seed fingerprint]
+//   yarn fingerprint --update --hashes hashes.txt
+//
+// checks the scenes of the tokens in the manifest against their fingerprints
+// and exits with a non zero code listing the drifted tokens and rects, --update
+// writes a new baseline for the seeded hashes or the hashes of a file
+const main = () => {
+  const args = parseArgs();
+  const manifestPath = getStringArg(
+    args,
+    'manifest',
+    path.join('src', 'data', 'fingerprints.json'),
+  );
+
+  if (args.update) {
+    const hashes =
+      typeof args.hashes === 'string'
+        ? getGalleryHashes(fs.readFileSync(args.hashes, 'utf8'))
+        : getFingerprintHashes(
+            getNumberArg(args, 'count', 16),
+            getStringArg(args, 'seed', 'fingerprint'),
+          );
+    const manifest = createFingerprintManifest(hashes);
+    fs.mkdirSync(path.dirname(manifestPath), { recursive: true });
+    fs.writeFileSync(manifestPath, formatFingerprintManifest(manifest));
+    console.log(
+      `wrote fingerprints of ${hashes.length} tokens to ${manifestPath}`,
+    );
+    return;
+  }
+
+  const baseline: FingerprintManifest = JSON.parse(
+    fs.readFileSync(manifestPath, 'utf8'),
+  );
+  const drifts = checkFingerprints(baseline);
+  const count = Object.keys(baseline).length;
+  if (drifts.length) {
+    console.error(
+      formatFingerprintDrifts(drifts, getNumberArg(args, 'max-rects', 5)),
+    );
+    console.error(
+      `${drifts.length} of ${count} tokens drifted from ${manifestPath}, run with --update if the change is intended`,
+    );
+    process.exit(1);
+  }
+  console.log(`all ${count} tokens match ${manifestPath}`);
+};
+
+main();
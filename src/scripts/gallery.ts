@@ -0,0 +1,56 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { getNumberArg, getStringArg, parseArgs } from '../utils/args';
+import { encodePng } from '../utils/png';
+import { DEFAULT_ASPECT_RATIO, parseAspectRatio } from '../gridways/aspect';
+import {
+  createContactSheet,
+  DEFAULT_GALLERY_SCALE,
+  getGalleryHashes,
+  galleryToCsv,
+  renderGalleryItem,
+} from '../gridways/gallery';
+
+// renders a contact sheet of tokens and a csv of their features for curation
+//
+//   yarn gallery [--count 16] [--hashes hashes.txt] [--out out/gallery]
+//     [--scale 0.05] [--columns 4] [--playhead 0] [--aspect 16:9]
+//
+// --hashes reads one hash per line instead of rendering random tokens
+const main = () => {
+  const args = parseArgs();
+  const out = getStringArg(args, 'out', path.join('out', 'gallery'));
+  const hashes = getGalleryHashes(
+    typeof args.hashes === 'string'
+      ? fs.readFileSync(args.hashes, 'utf8')
+      : getNumberArg(args, 'count', 16),
+  );
+  const options = {
+    scale: getNumberArg(args, 'scale', DEFAULT_GALLERY_SCALE),
+    playhead: getNumberArg(args, 'playhead', 0),
+    aspectRatio: parseAspectRatio(
+      getStringArg(args, 'aspect', DEFAULT_ASPECT_RATIO),
+    ),
+  };
+
+  const items = hashes.map((hash, i) => {
+    console.log(`rendering ${i + 1}/${hashes.length} ${hash}`);
+    return renderGalleryItem(hash, options);
+  });
+  const sheet = createContactSheet(
+    items.map((item) => item.image),
+    {
+      columns: args.columns ? getNumberArg(args, 'columns', 0) : undefined,
+    },
+  );
+
+  fs.mkdirSync(out, { recursive: true });
+  fs.writeFileSync(path.join(out, 'contact-sheet.png'), encodePng(sheet));
+  fs.writeFileSync(path.join(out, 'features.csv'), galleryToCsv(items));
+  console.log(
+    `wrote contact sheet and features of ${items.length} tokens to ${out}`,
+  );
+};
+
+main();
@@ -0,0 +1,19 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { getStringArg, parseArgs } from '../utils/args';
+import { GENE_SCHEMA } from '../gridways/validation';
+
+// writes the json schema of a gene, for editors and external tooling
+//
+//   yarn gene:schema [--out out/gene.schema.json]
+const main = () => {
+  const args = parseArgs();
+  const out = getStringArg(args, 'out', path.join('out', 'gene.schema.json'));
+
+  fs.mkdirSync(path.dirname(out), { recursive: true });
+  fs.writeFileSync(out, `${JSON.stringify(GENE_SCHEMA, null, 2)}\n`);
+  console.log(`wrote gene schema to ${out}`);
+};
+
+main();
@@ -0,0 +1,70 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { getStringArg, parseArgs } from '../utils/args';
+import { encodePng } from '../utils/png';
+import { createTokenScene } from '../gridways/fingerprint';
+import { rasterizeScene } from '../gridways/rasterizer';
+
+// snapshot test of the headless renderer against golden pngs of fixed hashes
+//
+//   yarn golden [--dir src/data/golden]
+//   yarn golden --update [--hash 0x...]
+//
+// renders the square edition of every `<hash>.png` in the directory and exits
+// with a non zero code when a render is not byte identical to its golden,
+// --update rewrites the goldens, adding the one of --hash
+const GOLDEN_SCALE = 0.1;
+
+const renderGolden = (hash: string) =>
+  encodePng(rasterizeScene(createTokenScene(hash), { scale: GOLDEN_SCALE }));
+
+const main = () => {
+  const args = parseArgs();
+  const dir = getStringArg(args, 'dir', path.join('src', 'data', 'golden'));
+  const hashes = fs.existsSync(dir)
+    ? fs
+        .readdirSync(dir)
+        .filter((file) => file.endsWith('.png'))
+        .map((file) => path.basename(file, '.png'))
+    : [];
+
+  if (args.update) {
+    if (typeof args.hash === 'string' && !hashes.includes(args.hash)) {
+      hashes.push(args.hash);
+    }
+    fs.mkdirSync(dir, { recursive: true });
+    hashes.forEach((hash) =>
+      fs.writeFileSync(path.join(dir, `${hash}.png`), renderGolden(hash)),
+    );
+    console.log(`wrote ${hashes.length} goldens to ${dir}`);
+    return;
+  }
+
+  if (!hashes.length) {
+    throw new Error(`no goldens in ${dir}, add one with --update --hash 0x...`);
+  }
+  const failures = hashes.filter((hash) => {
+    const golden = path.join(dir, `${hash}.png`);
+    let matches: boolean;
+    try {
+      matches = renderGolden(hash).equals(fs.readFileSync(golden));
+    } catch (e) {
+      console.error(`${hash} no longer renders: ${e.message ?? e}`);
+      return true;
+    }
+    if (!matches) {
+      console.error(`render of ${hash} differs from ${golden}`);
+    }
+    return !matches;
+  });
+  if (failures.length) {
+    console.error(
+      `${failures.length} of ${hashes.length} renders differ from ${dir}, run with --update if the change is intended`,
+    );
+    process.exit(1);
+  }
+  console.log(`all ${hashes.length} renders match ${dir}`);
+};
+
+main();
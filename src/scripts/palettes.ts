@@ -0,0 +1,40 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { getStringArg, parseArgs } from '../utils/args';
+import * as colors from '../data/colors.json';
+import { MIN_PALLETE_CONTRAST, scorePalletes } from '../gridways/palette';
+
+// scores the palettes of colors.json by the contrast of their best background
+//
+//   yarn palettes [--out out/palettes]
+//
+// writes palettes.json to the out directory and prints the palettes below
+// MIN_PALLETE_CONTRAST, tokens drawing one paint with a harmony of its first
+// color
+const main = () => {
+  const args = parseArgs();
+  const out = getStringArg(args, 'out', path.join('out', 'palettes'));
+
+  const entries = scorePalletes(colors as string[][]);
+  const rejected = entries.filter((entry) => entry.rejected);
+
+  fs.mkdirSync(out, { recursive: true });
+  fs.writeFileSync(
+    path.join(out, 'palettes.json'),
+    JSON.stringify(entries, null, 2),
+  );
+  rejected.forEach((entry) =>
+    console.log(
+      `No. ${entry.index}`.padEnd(10),
+      entry.contrast.toFixed(2).padStart(6),
+      entry.colors.join(' '),
+    ),
+  );
+  console.log(
+    `${rejected.length} of ${entries.length} palettes below a contrast of ${MIN_PALLETE_CONTRAST}`,
+  );
+  console.log(`wrote palettes.json to ${out}`);
+};
+
+main();
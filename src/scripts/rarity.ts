@@ -0,0 +1,40 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { getNumberArg, getStringArg, parseArgs } from '../utils/args';
+import { DEFAULT_ASPECT_RATIO } from '../gridways/aspect';
+import { collectRarityStats, formatRarityReport } from '../gridways/rarity';
+
+// reports how often every trait value and structural outcome occurs
+//
+//   yarn rarity [--count 5000] [--seed rarity] [--aspect 1:1] [--out out/rarity]
+//
+// writes rarity.json and rarity.txt to the out directory and prints the text
+// report, the same seed always samples the same tokens. Traits are the same in
+// every edition, the rect histograms are of the --aspect edition
+const main = () => {
+  const args = parseArgs();
+  const count = getNumberArg(args, 'count', 5000);
+  const seed = getStringArg(args, 'seed', 'rarity');
+  const aspect = getStringArg(args, 'aspect', DEFAULT_ASPECT_RATIO);
+  const out = getStringArg(args, 'out', path.join('out', 'rarity'));
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error(
+      `--count expects a whole number of at least 1, got ${count}`,
+    );
+  }
+
+  const report = collectRarityStats(count, seed, aspect);
+  const text = formatRarityReport(report);
+
+  fs.mkdirSync(out, { recursive: true });
+  fs.writeFileSync(
+    path.join(out, 'rarity.json'),
+    JSON.stringify(report, null, 2),
+  );
+  fs.writeFileSync(path.join(out, 'rarity.txt'), text);
+  console.log(text);
+  console.log(`wrote rarity.json and rarity.txt to ${out}`);
+};
+
+main();
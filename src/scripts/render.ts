@@ -0,0 +1,66 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { getNumberArg, getStringArg, parseArgs } from '../utils/args';
+import { encodePng } from '../utils/png';
+import { generateRandomHash } from '../utils/seed';
+import {
+  DEFAULT_ASPECT_RATIO,
+  getDimensions,
+  parseAspectRatio,
+} from '../gridways/aspect';
+import { extractFeatures } from '../gridways/features';
+import { rasterizeScene } from '../gridways/rasterizer';
+import { parseGene } from '../gridways/serialization';
+import { createScene, getSceneRects } from '../gridways/scene';
+
+// renders a token to png without a browser or gpu
+//
+//   yarn render --hash 0x... [--out out/render.png] [--scale 0.25]
+//     [--playhead 0] [--aspect 4:5] [--json] [--compare golden.png]
+//   yarn render --gene token.gene.json ...
+//
+// --json also writes the scene description next to the png, --compare exits
+// with a non zero code when the render differs from a previous render
+const main = () => {
+  const args = parseArgs();
+  const hash = getStringArg(args, 'hash', generateRandomHash());
+  const scale = getNumberArg(args, 'scale', 0.25);
+  const playhead = getNumberArg(args, 'playhead', 0);
+  const gene =
+    typeof args.gene === 'string'
+      ? parseGene(fs.readFileSync(args.gene, 'utf8'))
+      : extractFeatures(hash).gene;
+  const name =
+    typeof args.gene === 'string' ? path.basename(args.gene, '.json') : hash;
+  const out = getStringArg(args, 'out', path.join('out', `${name}.png`));
+
+  const scene = createScene(
+    gene,
+    ...getDimensions(
+      parseAspectRatio(getStringArg(args, 'aspect', DEFAULT_ASPECT_RATIO)),
+    ),
+  );
+  const png = encodePng(rasterizeScene(scene, { playhead, scale }));
+
+  fs.mkdirSync(path.dirname(out), { recursive: true });
+  fs.writeFileSync(out, png);
+  console.log(`rendered ${name} to ${out}`);
+
+  if (args.json) {
+    const jsonOut = out.replace(/\.png$/, '') + '.json';
+    const rects = getSceneRects(scene, playhead);
+    fs.writeFileSync(jsonOut, JSON.stringify({ ...scene, rects }, null, 2));
+    console.log(`wrote scene description to ${jsonOut}`);
+  }
+
+  if (typeof args.compare === 'string') {
+    if (!png.equals(fs.readFileSync(args.compare))) {
+      console.error(`render of ${name} differs from ${args.compare}`);
+      process.exit(1);
+    }
+    console.log(`render of ${name} matches ${args.compare}`);
+  }
+};
+
+main();
@@ -23,6 +23,14 @@ export interface SketchContext {
     fps: number;
     recording?: boolean;
     gl: any;
+    render?: () => void;
+}
+export declare type AnimateLineType = 'static' | 'start-suck' | 'start-expand' | 'end-suck' | 'end-expand';
+export interface AnimationEasings {
+    easing: string;
+    phaseEasings?: {
+        [type in AnimateLineType]?: string;
+    };
 }
 export interface Animation {
     startDelayInTicks: number;
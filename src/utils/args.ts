@@ -0,0 +1,37 @@
+export type Args = { [name: string]: string | true };
+
+// parses `--name value` and bare `--flag` pairs from the command line
+export const parseArgs = (argv: string[] = process.argv.slice(2)): Args => {
+  const args: Args = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith('--')) {
+      throw new Error(`unexpected argument: ${argv[i]}`);
+    }
+    const name = argv[i].slice(2);
+    const next = argv[i + 1];
+    if (next === undefined || next.startsWith('--')) {
+      args[name] = true;
+    } else {
+      args[name] = next;
+      i++;
+    }
+  }
+  return args;
+};
+
+export const getStringArg = (args: Args, name: string, fallback: string) => {
+  const value = args[name];
+  return typeof value === 'string' ? value : fallback;
+};
+
+export const getNumberArg = (args: Args, name: string, fallback: number) => {
+  const value = args[name];
+  if (typeof value !== 'string') {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (isNaN(parsed)) {
+    throw new Error(`--${name} expects a number, got ${value}`);
+  }
+  return parsed;
+};
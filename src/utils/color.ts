@@ -1,10 +1,123 @@
 import { Color } from '../types';
 
+// expands shorthand hex (#fff) to its full form (#ffffff)
+export const expandHex = (hexStr: string) =>
+  hexStr.length === 4
+    ? `#${hexStr
+        .slice(1)
+        .split('')
+        .map((c) => c + c)
+        .join('')}`
+    : hexStr;
+
 export const convertHexToColor = (hexStr: string): Color => {
-  var bigint = parseInt(hexStr.slice(1), 16);
+  var bigint = parseInt(expandHex(hexStr).slice(1), 16);
   var r = (bigint >> 16) & 255;
   var g = (bigint >> 8) & 255;
   var b = bigint & 255;
 
   return [r / 255, g / 255, b / 255, 1];
 };
+
+export const convertColorToHex = (color: Color) =>
+  `#${color
+    .slice(0, 3)
+    .map((c) =>
+      Math.round(Math.min(Math.max(c, 0), 1) * 255)
+        .toString(16)
+        .padStart(2, '0'),
+    )
+    .join('')}`;
+
+// lightness, a and b of the oklab perceptual color space by Björn Ottosson
+export type Oklab = [number, number, number];
+// lightness, chroma and hue in radians, the polar form of oklab
+export type Oklch = [number, number, number];
+
+const toLinear = (c: number) =>
+  c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+
+const fromLinear = (c: number) =>
+  c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+
+export const convertHexToOklab = (hexStr: string): Oklab => {
+  const [r, g, b] = convertHexToColor(hexStr).map(toLinear);
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+  return [
+    0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  ];
+};
+
+// linear srgb, components outside of [0,1] are out of gamut
+const convertOklabToLinear = ([L, a, b]: Oklab) => {
+  const l = Math.pow(L + 0.3963377774 * a + 0.2158037573 * b, 3);
+  const m = Math.pow(L - 0.1055613458 * a - 0.0638541728 * b, 3);
+  const s = Math.pow(L - 0.0894841775 * a - 1.291485548 * b, 3);
+  return [
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s,
+  ];
+};
+
+const GAMUT_SEARCH_STEPS = 24;
+
+const isInGamut = (linear: number[]) =>
+  linear.every((c) => c >= -1e-4 && c <= 1 + 1e-4);
+
+export const convertOklabToOklch = ([L, a, b]: Oklab): Oklch => [
+  L,
+  Math.hypot(a, b),
+  Math.atan2(b, a),
+];
+
+export const convertOklchToOklab = ([L, C, h]: Oklch): Oklab => [
+  L,
+  C * Math.cos(h),
+  C * Math.sin(h),
+];
+
+// colors outside of srgb keep their lightness and hue and lose chroma until
+// they fit, a binary search like css gamut mapping
+export const convertOklchToHex = ([L, C, h]: Oklch) => {
+  const lightness = Math.min(Math.max(L, 0), 1);
+  let low = 0;
+  let high = C;
+  let linear = convertOklabToLinear(convertOklchToOklab([lightness, C, h]));
+  if (!isInGamut(linear)) {
+    for (let i = 0; i < GAMUT_SEARCH_STEPS; i++) {
+      const chroma = (low + high) / 2;
+      if (
+        isInGamut(
+          convertOklabToLinear(convertOklchToOklab([lightness, chroma, h])),
+        )
+      ) {
+        low = chroma;
+      } else {
+        high = chroma;
+      }
+    }
+    linear = convertOklabToLinear(convertOklchToOklab([lightness, low, h]));
+  }
+  return convertColorToHex([...linear.map(fromLinear), 1] as Color);
+};
+
+export const convertHexToOklch = (hexStr: string) =>
+  convertOklabToOklch(convertHexToOklab(hexStr));
+
+// wcag relative luminance and contrast ratio, from 1 to 21
+export const getRelativeLuminance = (hexStr: string) => {
+  const [r, g, b] = convertHexToColor(hexStr).map(toLinear);
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+export const getContrastRatio = (a: string, b: string) => {
+  const [light, dark] = [getRelativeLuminance(a), getRelativeLuminance(b)].sort(
+    (x, y) => y - x,
+  );
+  return (light + 0.05) / (dark + 0.05);
+};
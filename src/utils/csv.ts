@@ -0,0 +1,6 @@
+// quotes a cell when it contains a delimiter, quote or newline (rfc 4180)
+const escapeCell = (cell: string) =>
+  /[",\n\r]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+
+export const toCsv = (rows: string[][]) =>
+  rows.map((row) => row.map(escapeCell).join(',')).join('\n') + '\n';
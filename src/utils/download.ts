@@ -0,0 +1,8 @@
+// saves a blob through a temporary link, browser only
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(link.href);
+};
@@ -1,4 +1,120 @@
-const { pow, sin } = Math;
+const { pow, sin, cos, abs, PI } = Math;
+
+export type EasingFunction = (x: number) => number;
+
+export function linear(x: number): number {
+  return x;
+}
+
+export function easeInSine(x: number): number {
+  return 1 - cos((x * PI) / 2);
+}
+
+export function easeOutSine(x: number): number {
+  return sin((x * PI) / 2);
+}
+
+export function easeInOutSine(x: number): number {
+  return -(cos(PI * x) - 1) / 2;
+}
+
+export function easeInQuad(x: number): number {
+  return x * x;
+}
+
+export function easeOutQuad(x: number): number {
+  return 1 - (1 - x) * (1 - x);
+}
+
+export function easeInOutQuad(x: number): number {
+  return x < 0.5 ? 2 * x * x : 1 - pow(-2 * x + 2, 2) / 2;
+}
+
+export function easeInCubic(x: number): number {
+  return x * x * x;
+}
+
+export function easeOutCubic(x: number): number {
+  return 1 - pow(1 - x, 3);
+}
+
+export function easeInOutCubic(x: number): number {
+  return x < 0.5 ? 4 * x * x * x : 1 - pow(-2 * x + 2, 3) / 2;
+}
+
+export function easeInExpo(x: number): number {
+  return x === 0 ? 0 : pow(2, 10 * x - 10);
+}
+
+export function easeOutExpo(x: number): number {
+  return x === 1 ? 1 : 1 - pow(2, -10 * x);
+}
+
+export function easeInOutExpo(x: number): number {
+  return x === 0
+    ? 0
+    : x === 1
+    ? 1
+    : x < 0.5
+    ? pow(2, 20 * x - 10) / 2
+    : (2 - pow(2, -20 * x + 10)) / 2;
+}
+
+export function easeInBack(x: number): number {
+  const c1 = 1.70158;
+  const c3 = c1 + 1;
+
+  return c3 * x * x * x - c1 * x * x;
+}
+
+export function easeOutBack(x: number): number {
+  const c1 = 1.70158;
+  const c3 = c1 + 1;
+
+  return 1 + c3 * pow(x - 1, 3) + c1 * pow(x - 1, 2);
+}
+
+export function easeInOutBack(x: number): number {
+  const c2 = 1.70158 * 1.525;
+
+  return x < 0.5
+    ? (pow(2 * x, 2) * ((c2 + 1) * 2 * x - c2)) / 2
+    : (pow(2 * x - 2, 2) * ((c2 + 1) * (x * 2 - 2) + c2) + 2) / 2;
+}
+
+export function easeOutBounce(x: number): number {
+  const n1 = 7.5625;
+  const d1 = 2.75;
+
+  if (x < 1 / d1) {
+    return n1 * x * x;
+  } else if (x < 2 / d1) {
+    return n1 * (x -= 1.5 / d1) * x + 0.75;
+  } else if (x < 2.5 / d1) {
+    return n1 * (x -= 2.25 / d1) * x + 0.9375;
+  }
+  return n1 * (x -= 2.625 / d1) * x + 0.984375;
+}
+
+export function easeInBounce(x: number): number {
+  return 1 - easeOutBounce(1 - x);
+}
+
+export function easeInOutBounce(x: number): number {
+  return x < 0.5
+    ? (1 - easeOutBounce(1 - 2 * x)) / 2
+    : (1 + easeOutBounce(2 * x - 1)) / 2;
+}
+
+export function easeInElastic(x: number): number {
+  const c4 = (2 * Math.PI) / 3;
+
+  return x === 0
+    ? 0
+    : x === 1
+    ? 1
+    : -pow(2, 10 * x - 10) * sin((x * 10 - 10.75) * c4);
+}
 
 export function easeInOutElastic(x: number): number {
   const c5 = (2 * Math.PI) / 4.5;
@@ -21,3 +137,109 @@ export function easeOutElastic(x: number): number {
     ? 1
     : pow(2, -10 * x) * sin((x * 10 - 0.75) * c4) + 1;
 }
+
+// css style cubic-bezier, control points are (0,0), (x1,y1), (x2,y2), (1,1)
+export function cubicBezier(
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number,
+): EasingFunction {
+  const bezier = (t: number, p1: number, p2: number) =>
+    3 * p1 * t * pow(1 - t, 2) + 3 * p2 * pow(t, 2) * (1 - t) + pow(t, 3);
+  const bezierSlope = (t: number, p1: number, p2: number) =>
+    3 * p1 * pow(1 - t, 2) + 6 * (p2 - p1) * t * (1 - t) + 3 * (1 - p2) * t * t;
+
+  // solves for the t at which the curve reaches x, newton first then bisection
+  const solveT = (x: number) => {
+    let t = x;
+    for (let i = 0; i < 8; i++) {
+      const slope = bezierSlope(t, x1, x2);
+      if (abs(slope) < 1e-6) {
+        break;
+      }
+      const error = bezier(t, x1, x2) - x;
+      if (abs(error) < 1e-7) {
+        return t;
+      }
+      t -= error / slope;
+    }
+    let lo = 0;
+    let hi = 1;
+    t = x;
+    for (let i = 0; i < 32; i++) {
+      const error = bezier(t, x1, x2) - x;
+      if (abs(error) < 1e-7) {
+        break;
+      }
+      if (error > 0) {
+        hi = t;
+      } else {
+        lo = t;
+      }
+      t = (lo + hi) / 2;
+    }
+    return t;
+  };
+
+  return (x: number) => (x <= 0 ? 0 : x >= 1 ? 1 : bezier(solveT(x), y1, y2));
+}
+
+export const EASINGS = {
+  linear,
+  easeInSine,
+  easeOutSine,
+  easeInOutSine,
+  easeInQuad,
+  easeOutQuad,
+  easeInOutQuad,
+  easeInCubic,
+  easeOutCubic,
+  easeInOutCubic,
+  easeInExpo,
+  easeOutExpo,
+  easeInOutExpo,
+  easeInBack,
+  easeOutBack,
+  easeInOutBack,
+  easeInBounce,
+  easeOutBounce,
+  easeInOutBounce,
+  easeInElastic,
+  easeOutElastic,
+  easeInOutElastic,
+};
+
+export type EasingName = keyof typeof EASINGS;
+
+const CUBIC_BEZIER_REGEX = /^cubic-bezier\(([^)]*)\)$/;
+
+const parsedEasings = new Map<string, EasingFunction>();
+
+// resolves an easing by name, e.g. 'easeOutBack' or 'cubic-bezier(.17,.67,.83,.67)'
+export const getEasing = (name: string): EasingFunction => {
+  if (Object.prototype.hasOwnProperty.call(EASINGS, name)) {
+    return EASINGS[name as EasingName];
+  }
+  const parsed = parsedEasings.get(name);
+  if (parsed) {
+    return parsed;
+  }
+  const match = name.replace(/\s/g, '').match(CUBIC_BEZIER_REGEX);
+  if (match) {
+    const points = match[1].split(',').map(Number);
+    if (
+      points.length === 4 &&
+      points.every((p) => !isNaN(p)) &&
+      points[0] >= 0 &&
+      points[0] <= 1 &&
+      points[2] >= 0 &&
+      points[2] <= 1
+    ) {
+      const easing = cubicBezier(points[0], points[1], points[2], points[3]);
+      parsedEasings.set(name, easing);
+      return easing;
+    }
+  }
+  throw new Error(`unknown easing: ${name}`);
+};
@@ -0,0 +1,4 @@
+// literal of a number for a glsl float, which has no implicit conversion from
+// the int literal `32`
+export const toGlslFloat = (value: number) =>
+  Number.isInteger(value) ? value.toFixed(1) : `${value}`;
@@ -0,0 +1,70 @@
+// cpu ports of the glsl noise functions used in the shaders, so headless
+// renders match what the gpu paints
+
+const fract = (x: number) => x - Math.floor(x);
+
+const mod289 = (x: number) => x - Math.floor(x * (1.0 / 289.0)) * 289.0;
+
+const permute = (x: number) => mod289((x * 34.0 + 1.0) * x);
+
+// port of glsl-random
+export const glslRandom = (x: number, y: number) => {
+  const dt = x * 12.9898 + y * 78.233;
+  const sn = dt - 3.14 * Math.floor(dt / 3.14);
+  return fract(Math.sin(sn) * 43758.5453);
+};
+
+const C = [
+  0.211324865405187, // (3.0-sqrt(3.0))/6.0
+  0.366025403784439, // 0.5*(sqrt(3.0)-1.0)
+  -0.577350269189626, // -1.0 + 2.0 * C.x
+  0.024390243902439, // 1.0 / 41.0
+];
+
+// port of glsl-noise/simplex/2d by Ian McEwan, Ashima Arts (MIT)
+export const glslSimplex2D = (vx: number, vy: number) => {
+  // first corner
+  const s = (vx + vy) * C[1];
+  let ix = Math.floor(vx + s);
+  let iy = Math.floor(vy + s);
+  const t = (ix + iy) * C[0];
+  const x0x = vx - ix + t;
+  const x0y = vy - iy + t;
+
+  // other corners
+  const i1x = x0x > x0y ? 1.0 : 0.0;
+  const i1y = x0x > x0y ? 0.0 : 1.0;
+  const x12 = [x0x + C[0] - i1x, x0y + C[0] - i1y, x0x + C[2], x0y + C[2]];
+
+  // permutations
+  ix = mod289(ix);
+  iy = mod289(iy);
+  const p = [
+    permute(permute(iy + 0.0) + ix + 0.0),
+    permute(permute(iy + i1y) + ix + i1x),
+    permute(permute(iy + 1.0) + ix + 1.0),
+  ];
+
+  const m = [
+    Math.max(0.5 - (x0x * x0x + x0y * x0y), 0.0),
+    Math.max(0.5 - (x12[0] * x12[0] + x12[1] * x12[1]), 0.0),
+    Math.max(0.5 - (x12[2] * x12[2] + x12[3] * x12[3]), 0.0),
+  ].map((v) => v * v * v * v);
+
+  // gradients: 41 points uniformly over a line, mapped onto a diamond
+  let total = 0;
+  const corners = [
+    [x0x, x0y],
+    [x12[0], x12[1]],
+    [x12[2], x12[3]],
+  ];
+  for (let i = 0; i < 3; i++) {
+    const x = 2.0 * fract(p[i] * C[3]) - 1.0;
+    const h = Math.abs(x) - 0.5;
+    const a0 = x - Math.floor(x + 0.5);
+    // normalise gradients implicitly by scaling m
+    const mi = m[i] * (1.79284291400159 - 0.85373472095314 * (a0 * a0 + h * h));
+    total += mi * (a0 * corners[i][0] + h * corners[i][1]);
+  }
+  return 130.0 * total;
+};
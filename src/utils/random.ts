@@ -1,4 +1,64 @@
 export type RandomType = 'float' | 'int';
+export type RandomSource = () => number;
+
+type Sfc32State = [number, number, number, number];
+
+// outputs dropped after seeding so similar seeds diverge
+const SFC32_WARMUP = 12;
+
+// small fast counter generator, 128 bits of state and uniform in [0, 1)
+export const sfc32 = (...state: Sfc32State): RandomSource => {
+  let [a, b, c, d] = state;
+  return () => {
+    a >>>= 0;
+    b >>>= 0;
+    c >>>= 0;
+    d >>>= 0;
+    let t = (a + b) | 0;
+    a = b ^ (b >>> 9);
+    b = (c + (c << 3)) | 0;
+    c = (c << 21) | (c >>> 11);
+    d = (d + 1) | 0;
+    t = (t + d) | 0;
+    c = (c + t) | 0;
+    return (t >>> 0) / 4294967296;
+  };
+};
+
+// 128 bit hash of a string (cyrb128), seeds forks and seeds that aren't hashes
+const hashString = (value: string): Sfc32State => {
+  let h1 = 1779033703;
+  let h2 = 3144134277;
+  let h3 = 1013904242;
+  let h4 = 2773480762;
+  for (let i = 0; i < value.length; i++) {
+    const k = value.charCodeAt(i);
+    h1 = h2 ^ Math.imul(h1 ^ k, 597399067);
+    h2 = h3 ^ Math.imul(h2 ^ k, 2869860233);
+    h3 = h4 ^ Math.imul(h3 ^ k, 951274213);
+    h4 = h1 ^ Math.imul(h4 ^ k, 2716044179);
+  }
+  h1 = Math.imul(h3 ^ (h1 >>> 18), 597399067);
+  h2 = Math.imul(h4 ^ (h2 >>> 22), 2869860233);
+  h3 = Math.imul(h1 ^ (h3 >>> 17), 951274213);
+  h4 = Math.imul(h2 ^ (h4 >>> 19), 2716044179);
+  return [
+    (h1 ^ h2 ^ h3 ^ h4) >>> 0,
+    (h2 ^ h1) >>> 0,
+    (h3 ^ h1) >>> 0,
+    (h4 ^ h1) >>> 0,
+  ];
+};
+
+// a token seed is 64 hex characters, its halves are folded into the state so
+// every bit of the hash counts
+const getSeedState = (seed: string): Sfc32State => {
+  if (!/^[0-9a-f]{64}$/.test(seed)) {
+    return hashString(seed);
+  }
+  const words = seed.match(/.{8}/g)!.map((word) => parseInt(word, 16));
+  return [0, 1, 2, 3].map((i) => (words[i] ^ words[i + 4]) >>> 0) as Sfc32State;
+};
 
 export function randomRangeFactory(randFunc: any) {
   const getFinalizer = (type: RandomType = 'float') => {
@@ -40,3 +100,30 @@ export function randomRangeFactory(randFunc: any) {
   };
   return utils;
 }
+
+export interface Rng extends ReturnType<typeof randomRangeFactory> {
+  next: RandomSource;
+  // an independent stream derived from the seed and the name, never from the
+  // draws of this stream, so new draws in one stream leave the others as is
+  fork: (name: string) => Rng;
+}
+
+// sfc32 streams seeded from a token seed, forks are seeded by their path of
+// names, e.g. `rng.fork('layout').fork('colors')`
+export const createRng = (seed: string): Rng => {
+  const create = (path: string, state: Sfc32State): Rng => {
+    const next = sfc32(...state);
+    for (let i = 0; i < SFC32_WARMUP; i++) {
+      next();
+    }
+    return {
+      ...randomRangeFactory(next),
+      next,
+      fork: (name: string) => {
+        const forkPath = `${path}/${name}`;
+        return create(forkPath, hashString(forkPath));
+      },
+    };
+  };
+  return create(seed, getSeedState(seed));
+};
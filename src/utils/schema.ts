@@ -0,0 +1,144 @@
+// the subset of json schema (draft-07) that validateSchema understands
+export interface JsonSchema {
+  $schema?: string;
+  title?: string;
+  description?: string;
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array';
+  required?: string[];
+  properties?: { [name: string]: JsonSchema };
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  enum?: any[];
+  pattern?: string;
+}
+
+export interface SchemaIssue {
+  path: string; // e.g. foreground.colorPalletes[2].type
+  message: string;
+}
+
+export const joinPath = (path: string, key: string | number) =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+const getType = (value: any) =>
+  Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+
+// validates a value against the schema, collecting every issue found
+export const validateSchema = (
+  value: any,
+  schema: JsonSchema,
+  path = '',
+): SchemaIssue[] => {
+  const issues: SchemaIssue[] = [];
+  const at = path || '(root)';
+  const type = getType(value);
+
+  if (schema.type) {
+    const matches =
+      schema.type === 'integer'
+        ? type === 'number' && Number.isInteger(value)
+        : schema.type === 'number'
+        ? type === 'number' && isFinite(value)
+        : type === schema.type;
+    if (!matches) {
+      return [{ path: at, message: `expected ${schema.type}, got ${type}` }];
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    issues.push({
+      path: at,
+      message: `expected one of ${schema.enum
+        .map((e) => JSON.stringify(e))
+        .join(', ')}, got ${JSON.stringify(value)}`,
+    });
+  }
+
+  if (type === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({
+        path: at,
+        message: `expected at least ${schema.minimum}, got ${value}`,
+      });
+    }
+    if (
+      schema.exclusiveMinimum !== undefined &&
+      value <= schema.exclusiveMinimum
+    ) {
+      issues.push({
+        path: at,
+        message: `expected more than ${schema.exclusiveMinimum}, got ${value}`,
+      });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({
+        path: at,
+        message: `expected at most ${schema.maximum}, got ${value}`,
+      });
+    }
+  }
+
+  if (
+    type === 'string' &&
+    schema.pattern &&
+    !new RegExp(schema.pattern).test(value)
+  ) {
+    issues.push({
+      path: at,
+      message: `expected to match ${schema.pattern}, got ${JSON.stringify(
+        value,
+      )}`,
+    });
+  }
+
+  if (type === 'array') {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({
+        path: at,
+        message: `expected at least ${schema.minItems} items, got ${value.length}`,
+      });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issues.push({
+        path: at,
+        message: `expected at most ${schema.maxItems} items, got ${value.length}`,
+      });
+    }
+    if (schema.items) {
+      value.forEach((item: any, i: number) => {
+        issues.push(...validateSchema(item, schema.items!, joinPath(path, i)));
+      });
+    }
+  }
+
+  if (type === 'object') {
+    (schema.required ?? []).forEach((name) => {
+      if (value[name] === undefined) {
+        issues.push({ path: joinPath(path, name), message: 'is required' });
+      }
+    });
+    Object.keys(value).forEach((name) => {
+      const propertySchema = schema.properties?.[name];
+      if (propertySchema) {
+        if (value[name] !== undefined) {
+          issues.push(
+            ...validateSchema(
+              value[name],
+              propertySchema,
+              joinPath(path, name),
+            ),
+          );
+        }
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: joinPath(path, name), message: 'is not allowed' });
+      }
+    });
+  }
+
+  return issues;
+};
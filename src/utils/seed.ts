@@ -0,0 +1,55 @@
+export interface TokenData {
+  hash: string;
+  tokenId: string;
+}
+
+export interface TokenSeed extends TokenData {
+  seed: string; // seed derived from the hash, fed to every random source
+}
+
+export const HASH_QUERY_PARAM = 'hash';
+export const TOKEN_ID_QUERY_PARAM = 'tokenId';
+
+// art blocks hashes are 32 bytes, hex encoded with a 0x prefix
+const HASH_REGEX = /^0x[0-9a-f]{64}$/;
+
+export const isValidHash = (hash: string) =>
+  HASH_REGEX.test(hash.toLowerCase());
+
+export const generateRandomHash = (randFunc: () => number = Math.random) => {
+  let hash = '0x';
+  for (let i = 0; i < 64; i++) {
+    hash += Math.floor(randFunc() * 16).toString(16);
+  }
+  return hash;
+};
+
+// the seed is the normalized hex body of the hash, casing and prefix are
+// dropped so the same token always yields the same seed
+export const hashToSeed = (hash: string): string => {
+  if (!isValidHash(hash)) {
+    throw new Error(`invalid token hash: ${hash}`);
+  }
+  return hash.toLowerCase().slice(2);
+};
+
+const getTokenDataFromUrl = (): TokenData | undefined => {
+  if (typeof window === 'undefined') {
+    return undefined;
+  }
+  const params = new URLSearchParams(window.location.search);
+  const hash = params.get(HASH_QUERY_PARAM);
+  if (!hash || !isValidHash(hash)) {
+    return undefined;
+  }
+  return { hash, tokenId: params.get(TOKEN_ID_QUERY_PARAM) ?? '0' };
+};
+
+// resolves the token to render, in order of precedence:
+// art blocks `tokenData`, the `?hash=` query param, and a random hash for dev
+export const getTokenSeed = (): TokenSeed => {
+  const injected = typeof tokenData !== 'undefined' ? tokenData : undefined;
+  const token: TokenData = injected ??
+    getTokenDataFromUrl() ?? { hash: generateRandomHash(), tokenId: '0' };
+  return { ...token, seed: hashToSeed(token.hash) };
+};
@@ -0,0 +1,26 @@
+export type Listener<T> = (value: T) => void;
+
+export interface Store<T> {
+  get: () => T;
+  set: (value: T) => void;
+  subscribe: (listener: Listener<T>) => () => void; // returns an unsubscribe
+}
+
+// minimal observable value, listeners are called on every set
+export const createStore = <T>(initialValue: T): Store<T> => {
+  let value = initialValue;
+  const listeners = new Set<Listener<T>>();
+  return {
+    get: () => value,
+    set: (nextValue: T) => {
+      value = nextValue;
+      listeners.forEach((listener) => listener(value));
+    },
+    subscribe: (listener: Listener<T>) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};